@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "ContentRevision" (
+    "id" TEXT NOT NULL,
+    "contentId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "title" TEXT,
+    "content" TEXT,
+    "tags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ContentRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ContentRevision_contentId_version_key" ON "ContentRevision"("contentId", "version");
+
+-- AddForeignKey
+ALTER TABLE "ContentRevision" ADD CONSTRAINT "ContentRevision_contentId_fkey" FOREIGN KEY ("contentId") REFERENCES "Content"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Content" ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Content_userId_deletedAt_idx" ON "Content"("userId", "deletedAt");
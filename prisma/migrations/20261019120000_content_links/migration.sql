@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "ContentLink" (
+    "id" TEXT NOT NULL,
+    "sourceId" TEXT NOT NULL,
+    "targetId" TEXT,
+    "reference" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ContentLink_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ContentLink_targetId_idx" ON "ContentLink"("targetId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ContentLink_sourceId_reference_key" ON "ContentLink"("sourceId", "reference");
+
+-- AddForeignKey
+ALTER TABLE "ContentLink" ADD CONSTRAINT "ContentLink_sourceId_fkey" FOREIGN KEY ("sourceId") REFERENCES "Content"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ContentLink" ADD CONSTRAINT "ContentLink_targetId_fkey" FOREIGN KEY ("targetId") REFERENCES "Content"("id") ON DELETE SET NULL ON UPDATE CASCADE;
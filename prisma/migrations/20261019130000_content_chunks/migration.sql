@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "ContentChunk" (
+    "id" TEXT NOT NULL,
+    "contentId" TEXT NOT NULL,
+    "chunkIndex" INTEGER NOT NULL,
+    "text" TEXT NOT NULL,
+    "startOffset" INTEGER NOT NULL,
+    "endOffset" INTEGER NOT NULL,
+    "pageNumber" INTEGER,
+    "embedding" vector(768),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ContentChunk_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ContentChunk_contentId_chunkIndex_key" ON "ContentChunk"("contentId", "chunkIndex");
+
+-- AddForeignKey
+ALTER TABLE "ContentChunk" ADD CONSTRAINT "ContentChunk_contentId_fkey" FOREIGN KEY ("contentId") REFERENCES "Content"("id") ON DELETE CASCADE ON UPDATE CASCADE;
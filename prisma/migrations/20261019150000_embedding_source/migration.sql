@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Content" ADD COLUMN     "embeddingModel" TEXT,
+ADD COLUMN     "embeddingProvider" TEXT;
+
+-- AlterTable
+ALTER TABLE "ContentChunk" ADD COLUMN     "embeddingModel" TEXT,
+ADD COLUMN     "embeddingProvider" TEXT;
+
+-- Everything embedded so far came from Gemini's text-embedding-004
+UPDATE "Content" SET "embeddingProvider" = 'gemini', "embeddingModel" = 'text-embedding-004' WHERE embedding IS NOT NULL;
+UPDATE "ContentChunk" SET "embeddingProvider" = 'gemini', "embeddingModel" = 'text-embedding-004' WHERE embedding IS NOT NULL;
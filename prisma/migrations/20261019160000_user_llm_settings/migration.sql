@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "llmModel" TEXT,
+ADD COLUMN     "llmProvider" TEXT;
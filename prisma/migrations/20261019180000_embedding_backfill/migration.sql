@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "BackfillStatus" AS ENUM ('RUNNING', 'COMPLETED', 'FAILED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "BackfillPhase" AS ENUM ('CONTENT', 'CHUNKS');
+
+-- CreateTable
+CREATE TABLE "EmbeddingBackfill" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "status" "BackfillStatus" NOT NULL DEFAULT 'RUNNING',
+    "phase" "BackfillPhase" NOT NULL DEFAULT 'CONTENT',
+    "contentCursor" TEXT,
+    "chunkCursor" TEXT,
+    "total" INTEGER NOT NULL DEFAULT 0,
+    "processed" INTEGER NOT NULL DEFAULT 0,
+    "skipped" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "EmbeddingBackfill_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EmbeddingBackfill_provider_model_status_idx" ON "EmbeddingBackfill"("provider", "model", "status");
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "EmbeddingCache" (
+    "hash" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "embedding" vector(768) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastUsedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EmbeddingCache_pkey" PRIMARY KEY ("hash")
+);
+
+-- CreateIndex
+CREATE INDEX "EmbeddingCache_lastUsedAt_idx" ON "EmbeddingCache"("lastUsedAt");
@@ -0,0 +1,9 @@
+-- AlterTable
+-- Titles weigh more than body text in ts_rank_cd
+ALTER TABLE "Content" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("content", '')), 'B')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Content_searchVector_idx" ON "Content" USING GIN ("searchVector");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Job" DROP COLUMN "file",
+ADD COLUMN     "fileKey" TEXT;
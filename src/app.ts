@@ -11,8 +11,19 @@ import noteRoutes from "./route/note.route.js";
 import documentRoutes from "./route/document.route.js";
 import searchRoute from "./route/search.route.js";
 import linkRoute from "./route/link.route.js";
+import tagRoute from "./route/tag.route.js";
+import collectionRoute from "./route/collection.route.js";
+import chatRoute from "./route/chat.route.js";
+import settingsRoute from "./route/settings.route.js";
+import jobRoute from "./route/job.route.js";
+import adminRoute from "./route/admin.route.js";
+import savedSearchRoute from "./route/savedSearch.route.js";
 import prisma from "./prisma.js";
 import "./cronjob/quoteCron.js";
+import "./cronjob/trashPurgeCron.js";
+import "./cronjob/jobWorkerCron.js";
+import "./cronjob/embeddingCacheCron.js";
+import "./cronjob/savedSearchAlertCron.js";
 
 // Initialize Express app
 const app = express();
@@ -49,6 +60,13 @@ app.use("/api/v1/notes", noteRoutes);
 app.use("/api/v1/documents", documentRoutes);
 app.use("/api/v1/search", searchRoute);
 app.use("/api/v1/link", linkRoute);
+app.use("/api/v1/tags", tagRoute);
+app.use("/api/v1/collections", collectionRoute);
+app.use("/api/v1/chat", chatRoute);
+app.use("/api/v1/settings", settingsRoute);
+app.use("/api/v1/jobs", jobRoute);
+app.use("/api/v1/admin", adminRoute);
+app.use("/api/v1/saved-searches", savedSearchRoute);
 
 app.get("/daily-quote", async (request: Request, response: Response) => {
   try {
@@ -0,0 +1,138 @@
+import { Request, Response } from "express";
+import { getEmbeddingSource } from "../services/embeddingProvider.service.js";
+import { getEmbeddingCacheStats } from "../services/embeddingCache.service.js";
+import {
+  BackfillInProgressError,
+  cancelBackfill,
+  countStaleEmbeddings,
+  DEFAULT_BATCH_SIZE,
+  DEFAULT_DELAY_MS,
+  getLatestBackfill,
+  runBackfill,
+  startBackfill,
+} from "../services/reembed.service.js";
+
+// Constants
+const MAX_BATCH_SIZE = 500;
+const MAX_DELAY_MS = 60000;
+
+const handleAdminError = (res: Response, error: unknown, fallbackMessage: string) => {
+  if (error instanceof Error && error.name === 'PrismaClientKnownRequestError') {
+    res.status(400).json({
+      error: "Database operation failed",
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+    return;
+  }
+
+  res.status(500).json({
+    error: fallbackMessage,
+    details: process.env.NODE_ENV === 'development' ? error : undefined
+  });
+};
+
+// How many rows still need embedding with the current model, the latest run
+// and embedding cache counters
+export const getEmbeddingStatus = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const [stale, latestRun, cache] = await Promise.all([
+      countStaleEmbeddings(),
+      getLatestBackfill(),
+      getEmbeddingCacheStats()
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...getEmbeddingSource(),
+        stale,
+        latestRun,
+        cache
+      }
+    });
+
+  } catch (error) {
+    console.error("Error fetching embedding status:", error);
+    handleAdminError(res, error, "Failed to fetch embedding status");
+  }
+};
+
+// Starts or resumes a re-embedding run in the background. Progress is read
+// back through getEmbeddingStatus.
+export const startReembed = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { batchSize = DEFAULT_BATCH_SIZE, delayMs = DEFAULT_DELAY_MS, restart = false } = req.body ?? {};
+
+    if (!Number.isInteger(batchSize) || batchSize < 1 || batchSize > MAX_BATCH_SIZE) {
+      res.status(400).json({ error: `Batch size must be an integer between 1 and ${MAX_BATCH_SIZE}` });
+      return;
+    }
+
+    if (!Number.isInteger(delayMs) || delayMs < 0 || delayMs > MAX_DELAY_MS) {
+      res.status(400).json({ error: `Delay must be an integer between 0 and ${MAX_DELAY_MS} milliseconds` });
+      return;
+    }
+
+    if (typeof restart !== 'boolean') {
+      res.status(400).json({ error: "Restart must be a boolean" });
+      return;
+    }
+
+    const stale = await countStaleEmbeddings();
+    if (stale.total === 0 && !restart) {
+      res.status(200).json({
+        success: true,
+        data: { stale },
+        message: "All embeddings are up to date"
+      });
+      return;
+    }
+
+    const run = await startBackfill(restart);
+
+    // Not awaited; runBackfill records its own failures on the run, and this
+    // catches the case where recording them fails too
+    runBackfill(run, { batchSize, delayMs }).catch(error => {
+      console.error(`Error in re-embedding run ${run.id}:`, error);
+    });
+
+    res.status(202).json({
+      success: true,
+      data: run,
+      message: run.processed > 0 ? "Re-embedding resumed" : "Re-embedding started"
+    });
+
+  } catch (error) {
+    if (error instanceof BackfillInProgressError) {
+      res.status(409).json({
+        error: error.message,
+        data: error.run
+      });
+      return;
+    }
+
+    console.error("Error starting re-embedding:", error);
+    handleAdminError(res, error, "Failed to start re-embedding");
+  }
+};
+
+export const cancelReembed = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const run = await cancelBackfill(req.params.id);
+
+    if (!run) {
+      res.status(404).json({ error: "No running re-embedding with this ID" });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: run,
+      message: "Re-embedding will stop after the current batch"
+    });
+
+  } catch (error) {
+    console.error("Error cancelling re-embedding:", error);
+    handleAdminError(res, error, "Failed to cancel re-embedding");
+  }
+};
@@ -0,0 +1,200 @@
+import { Request, Response } from "express";
+import prisma from "../prisma.js";
+import { generateEmbedding } from "../services/embedding.service.js";
+import {
+  buildEmbeddingText,
+  MAX_TAGS,
+  normalizeTags,
+  updateContentEmbedding,
+} from "../services/content.service.js";
+import { getCollectionScope, moveContentToCollection } from "../services/collection.service.js";
+import { BULK_REVISION_TIMEOUT_MS, withRevisions } from "../services/revision.service.js";
+
+// Type definitions
+type BulkAction = "delete" | "addTags" | "removeTags" | "moveToCollection" | "reembed";
+
+interface BulkItemResult {
+  id: string;
+  success: boolean;
+  error?: string;
+}
+
+// Constants
+const BULK_ACTIONS: BulkAction[] = ["delete", "addTags", "removeTags", "moveToCollection", "reembed"];
+const MAX_BULK_ITEMS = 500;
+
+export const bulkContentAction = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const { userId, ids, action, tags, collectionId } = req.body;
+
+    if (!userId || typeof userId !== 'string' || userId.trim().length === 0) {
+      res.status(400).json({ error: "User ID is required and must be a string" });
+      return;
+    }
+
+    if (!BULK_ACTIONS.includes(action)) {
+      res.status(400).json({
+        error: "Invalid action",
+        allowedActions: BULK_ACTIONS
+      });
+      return;
+    }
+
+    if (!Array.isArray(ids) || ids.length === 0 || !ids.every(id => typeof id === 'string')) {
+      res.status(400).json({ error: "ids must be a non-empty array of strings" });
+      return;
+    }
+
+    const uniqueIds: string[] = [...new Set(ids.map((id: string) => id.trim()))];
+    if (uniqueIds.length > MAX_BULK_ITEMS) {
+      res.status(400).json({ error: `Too many items (max ${MAX_BULK_ITEMS})` });
+      return;
+    }
+
+    let tagList: string[] = [];
+    if (action === "addTags" || action === "removeTags") {
+      const normalized = normalizeTags(tags);
+      if (normalized.error || normalized.tags.length === 0) {
+        res.status(400).json({ error: normalized.error || "At least one tag is required" });
+        return;
+      }
+      tagList = normalized.tags;
+    }
+
+    if (action === "moveToCollection") {
+      const scope = typeof collectionId === 'string'
+        ? await getCollectionScope(userId.trim(), collectionId, false)
+        : null;
+      if (!scope) {
+        res.status(404).json({ error: "Collection not found" });
+        return;
+      }
+    }
+
+    // Ownership check for every id; failures are reported per item
+    const found = await prisma.content.findMany({
+      where: { id: { in: uniqueIds }, deletedAt: null },
+      select: { id: true, userId: true, type: true, title: true, content: true, tags: true, createdAt: true }
+    });
+
+    const foundById = new Map(found.map(item => [item.id, item]));
+    const results = new Map<string, BulkItemResult>();
+    const ownedIds: string[] = [];
+
+    for (const id of uniqueIds) {
+      const item = foundById.get(id);
+      if (!item) {
+        results.set(id, { id, success: false, error: "Content not found" });
+      } else if (item.userId !== userId.trim()) {
+        results.set(id, { id, success: false, error: "Permission denied" });
+      } else if (
+        action === "addTags" &&
+        new Set([...item.tags, ...tagList]).size > MAX_TAGS
+      ) {
+        // Same limit the single-item update enforces
+        results.set(id, { id, success: false, error: `Too many tags (max ${MAX_TAGS})` });
+      } else {
+        ownedIds.push(id);
+      }
+    }
+
+    if (ownedIds.length > 0) {
+      if (action === "reembed") {
+        // Embedding calls go to an external API, so each item succeeds or fails on its own
+        for (const id of ownedIds) {
+          try {
+            const embedding = await generateEmbedding(buildEmbeddingText(foundById.get(id)!));
+            await updateContentEmbedding(id, embedding);
+            results.set(id, { id, success: true });
+          } catch (error) {
+            console.error(`Error re-embedding content ${id}:`, error);
+            results.set(id, {
+              id,
+              success: false,
+              error: error instanceof Error ? error.message : "Failed to re-embed"
+            });
+          }
+        }
+      } else {
+        await prisma.$transaction(async (tx) => {
+          if (action === "delete") {
+            await tx.content.updateMany({
+              where: { id: { in: ownedIds } },
+              data: { deletedAt: new Date() }
+            });
+          } else if (action === "moveToCollection") {
+            await moveContentToCollection(tx, ownedIds, collectionId);
+          } else if (action === "addTags") {
+            // Only rows missing one of the tags change, so only they get a revision
+            const changedIds = ownedIds.filter(id => !tagList.every(tag => foundById.get(id)!.tags.includes(tag)));
+
+            await withRevisions(tx, changedIds, () => tx.$executeRaw`
+              UPDATE "Content"
+              SET
+                tags = tags || ARRAY(
+                  SELECT tag FROM unnest(${tagList}::text[]) AS tag
+                  WHERE NOT tag = ANY("Content".tags)
+                ),
+                "updatedAt" = NOW()
+              WHERE id = ANY(${changedIds}::text[])
+              AND NOT tags @> ${tagList}::text[];
+            `);
+          } else {
+            const changedIds = ownedIds.filter(id => tagList.some(tag => foundById.get(id)!.tags.includes(tag)));
+
+            await withRevisions(tx, changedIds, () => tx.$executeRaw`
+              UPDATE "Content"
+              SET
+                tags = ARRAY(
+                  SELECT tag FROM unnest(tags) AS tag
+                  WHERE tag <> ALL(${tagList}::text[])
+                ),
+                "updatedAt" = NOW()
+              WHERE id = ANY(${changedIds}::text[])
+              AND tags && ${tagList}::text[];
+            `);
+          }
+        }, { timeout: BULK_REVISION_TIMEOUT_MS });
+
+        for (const id of ownedIds) {
+          results.set(id, { id, success: true });
+        }
+      }
+    }
+
+    const orderedResults = uniqueIds.map(id => results.get(id)!);
+    const succeeded = orderedResults.filter(result => result.success).length;
+
+    res.status(200).json({
+      success: succeeded === orderedResults.length,
+      action,
+      results: orderedResults,
+      summary: {
+        total: orderedResults.length,
+        succeeded,
+        failed: orderedResults.length - succeeded
+      }
+    });
+
+  } catch (error) {
+    console.error("Error running bulk action:", error);
+
+    if (error instanceof Error && error.name === 'PrismaClientKnownRequestError') {
+      res.status(400).json({
+        error: "Database operation failed",
+        details: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+      return;
+    }
+
+    res.status(500).json({
+      error: "Failed to run bulk action",
+      details: process.env.NODE_ENV === 'development' ? error : undefined
+    });
+  }
+};
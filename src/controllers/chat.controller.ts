@@ -0,0 +1,411 @@
+import { Request, Response } from "express";
+import { Prisma } from "@prisma/client";
+import prisma from "../prisma.js";
+import { generateEmbedding } from "../services/embedding.service.js";
+import { runSemanticSearch, sanitizeSearchQuery } from "../services/search.service.js";
+import {
+  buildAnswerPrompt,
+  buildContextSources,
+  extractCitations,
+} from "../services/rag.service.js";
+import {
+  formatChatHistory,
+  loadChatHistory,
+  rewriteFollowUpQuery,
+  titleFromMessage,
+} from "../services/chat.service.js";
+import { getLlmProvider, isLlmConfigured } from "../services/llmProvider.service.js";
+import { extractDateRange, isValidTimezone } from "../services/searchQuery.service.js";
+
+// Constants
+const MAX_TITLE_LENGTH = 200;
+const MAX_MESSAGE_LENGTH = 1000;
+const RETRIEVAL_THRESHOLD = 0.3;
+const RETRIEVAL_LIMIT = 8;
+const NO_SOURCES_ANSWER = "I couldn't find anything in your notes, documents or links about that.";
+
+const readUserId = (value: unknown): string | null => {
+  if (!value || typeof value !== 'string' || value.trim().length === 0) {
+    return null;
+  }
+  return value.trim();
+};
+
+const validateTitle = (title: unknown): string | null => {
+  if (!title || typeof title !== 'string' || title.trim().length === 0) {
+    return "Title is required and must be a non-empty string";
+  }
+  if (title.length > MAX_TITLE_LENGTH) {
+    return `Title is too long (max ${MAX_TITLE_LENGTH} characters)`;
+  }
+  return null;
+};
+
+const handleChatError = (res: Response, error: unknown, fallbackMessage: string) => {
+  if (error instanceof Error) {
+    if (error.name === 'PrismaClientKnownRequestError') {
+      res.status(400).json({
+        error: "Database operation failed",
+        details: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+      return;
+    }
+
+    if (error.name === 'PrismaClientUnknownRequestError') {
+      res.status(500).json({
+        error: "Unknown database error occurred"
+      });
+      return;
+    }
+  }
+
+  res.status(500).json({
+    error: fallbackMessage,
+    details: process.env.NODE_ENV === 'development' ? error : undefined
+  });
+};
+
+const findConversation = (id: string, userId: string) =>
+  prisma.conversation.findFirst({
+    where: { id, userId },
+    select: { id: true, title: true }
+  });
+
+export const getConversations = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const userId = readUserId(req.query.userId);
+    if (!userId) {
+      res.status(400).json({ error: "User ID is required" });
+      return;
+    }
+
+    const conversations = await prisma.conversation.findMany({
+      where: { userId },
+      orderBy: { updatedAt: "desc" },
+      select: {
+        id: true,
+        title: true,
+        createdAt: true,
+        updatedAt: true,
+        _count: { select: { messages: true } }
+      }
+    });
+
+    res.status(200).json({
+      success: true,
+      data: conversations.map(({ _count, ...conversation }) => ({
+        ...conversation,
+        messageCount: _count.messages
+      })),
+      count: conversations.length
+    });
+
+  } catch (error) {
+    console.error("Error fetching conversations:", error);
+    handleChatError(res, error, "Failed to fetch conversations");
+  }
+};
+
+export const getConversationById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const userId = readUserId(req.query.userId);
+    if (!userId) {
+      res.status(400).json({ error: "User ID is required" });
+      return;
+    }
+
+    const conversation = await prisma.conversation.findFirst({
+      where: { id: req.params.conversationId, userId },
+      select: {
+        id: true,
+        title: true,
+        createdAt: true,
+        updatedAt: true,
+        messages: {
+          orderBy: { createdAt: "asc" },
+          select: {
+            id: true,
+            role: true,
+            content: true,
+            rewrittenQuery: true,
+            sources: true,
+            citations: true,
+            createdAt: true
+          }
+        }
+      }
+    });
+
+    if (!conversation) {
+      res.status(404).json({ error: "Conversation not found" });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: conversation
+    });
+
+  } catch (error) {
+    console.error("Error fetching conversation:", error);
+    handleChatError(res, error, "Failed to fetch conversation");
+  }
+};
+
+export const createConversation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const { title } = req.body;
+    const userId = readUserId(req.body.userId);
+    if (!userId) {
+      res.status(400).json({ error: "User ID is required and must be a string" });
+      return;
+    }
+
+    // Untitled conversations are named after their first message
+    if (title !== undefined && title !== null) {
+      const titleError = validateTitle(title);
+      if (titleError) {
+        res.status(400).json({ error: titleError });
+        return;
+      }
+    }
+
+    const conversation = await prisma.conversation.create({
+      data: {
+        userId,
+        title: title?.trim() || null
+      }
+    });
+
+    res.status(201).json({
+      success: true,
+      data: conversation,
+      message: "Conversation created successfully"
+    });
+
+  } catch (error) {
+    console.error("Error creating conversation:", error);
+    handleChatError(res, error, "Failed to create conversation");
+  }
+};
+
+export const renameConversation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const { title } = req.body;
+    const userId = readUserId(req.body.userId);
+    if (!userId) {
+      res.status(400).json({ error: "User ID is required and must be a string" });
+      return;
+    }
+
+    const titleError = validateTitle(title);
+    if (titleError) {
+      res.status(400).json({ error: titleError });
+      return;
+    }
+
+    const existing = await findConversation(req.params.conversationId, userId);
+    if (!existing) {
+      res.status(404).json({ error: "Conversation not found" });
+      return;
+    }
+
+    const conversation = await prisma.conversation.update({
+      where: { id: existing.id },
+      data: { title: title.trim() }
+    });
+
+    res.status(200).json({
+      success: true,
+      data: conversation,
+      message: "Conversation renamed successfully"
+    });
+
+  } catch (error) {
+    console.error("Error renaming conversation:", error);
+    handleChatError(res, error, "Failed to rename conversation");
+  }
+};
+
+export const deleteConversation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const userId = readUserId(req.body.userId ?? req.query.userId);
+    if (!userId) {
+      res.status(400).json({ error: "User ID is required" });
+      return;
+    }
+
+    const conversation = await findConversation(req.params.conversationId, userId);
+    if (!conversation) {
+      res.status(404).json({ error: "Conversation not found" });
+      return;
+    }
+
+    // Messages cascade
+    await prisma.conversation.delete({ where: { id: conversation.id } });
+
+    res.status(200).json({
+      success: true,
+      message: "Conversation deleted successfully",
+      deletedConversation: conversation
+    });
+
+  } catch (error) {
+    console.error("Error deleting conversation:", error);
+    handleChatError(res, error, "Failed to delete conversation");
+  }
+};
+
+// Answers a message using the conversation so far: the follow-up is rewritten
+// into a standalone query, retrieval runs on that, and the answer is generated
+// from the retrieved sources plus the history
+export const postMessage = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const { message, timezone = "UTC" } = req.body;
+    const userId = readUserId(req.body.userId);
+    if (!userId) {
+      res.status(400).json({ error: "User ID is required and must be a string" });
+      return;
+    }
+
+    if (!isValidTimezone(timezone)) {
+      res.status(400).json({ error: "Timezone must be a valid IANA time zone, e.g. Europe/Berlin" });
+      return;
+    }
+
+    if (!message || typeof message !== 'string' || message.trim().length === 0) {
+      res.status(400).json({ error: "Message is required and must be a non-empty string" });
+      return;
+    }
+
+    if (message.length > MAX_MESSAGE_LENGTH) {
+      res.status(400).json({ error: `Message is too long (max ${MAX_MESSAGE_LENGTH} characters)` });
+      return;
+    }
+
+    if (!isLlmConfigured()) {
+      res.status(500).json({ error: "AI service not configured properly" });
+      return;
+    }
+
+    const conversation = await findConversation(req.params.conversationId, userId);
+    if (!conversation) {
+      res.status(404).json({ error: "Conversation not found" });
+      return;
+    }
+
+    const userMessage = message.trim();
+    const llm = await getLlmProvider(userId);
+    const history = await loadChatHistory(conversation.id);
+    const standaloneQuery = sanitizeSearchQuery(await rewriteFollowUpQuery(llm, history, userMessage));
+
+    // "What did I save last week" searches last week's items for the rest
+    const { text: searchText, dateRange } = extractDateRange(standaloneQuery, new Date(), timezone);
+
+    let queryEmbedding: number[] | undefined;
+    if (searchText) {
+      try {
+        queryEmbedding = await generateEmbedding(searchText);
+      } catch (error) {
+        console.error("Error generating embedding:", error);
+        res.status(500).json({ error: "Failed to process message" });
+        return;
+      }
+    }
+
+    const results = await runSemanticSearch({
+      userId,
+      query: searchText,
+      embedding: queryEmbedding,
+      threshold: RETRIEVAL_THRESHOLD,
+      limit: RETRIEVAL_LIMIT,
+      dateRange: dateRange ?? undefined
+    });
+
+    const sources = buildContextSources(results);
+
+    let answer = NO_SOURCES_ANSWER;
+    if (sources.length > 0) {
+      try {
+        const prompt = buildAnswerPrompt(userMessage, sources, formatChatHistory(history));
+        answer = (await llm.complete(prompt)).trim();
+      } catch (aiError) {
+        console.error("Error generating chat response:", aiError);
+        res.status(502).json({ error: "Failed to generate a response, please try again" });
+        return;
+      }
+    }
+
+    const citations = extractCitations(answer, sources);
+
+    // Both turns are stored together so a failed answer leaves no dangling question
+    const [savedUserMessage, savedAssistantMessage] = await prisma.$transaction([
+      prisma.message.create({
+        data: {
+          conversationId: conversation.id,
+          role: "USER",
+          content: userMessage
+        }
+      }),
+      prisma.message.create({
+        data: {
+          conversationId: conversation.id,
+          role: "ASSISTANT",
+          content: answer,
+          rewrittenQuery: standaloneQuery,
+          sources: sources as unknown as Prisma.InputJsonValue,
+          citations: citations as unknown as Prisma.InputJsonValue
+        }
+      }),
+      prisma.conversation.update({
+        where: { id: conversation.id },
+        data: {
+          updatedAt: new Date(),
+          ...(!conversation.title && { title: titleFromMessage(userMessage) })
+        }
+      })
+    ]);
+
+    res.status(201).json({
+      success: true,
+      data: {
+        userMessage: savedUserMessage,
+        assistantMessage: savedAssistantMessage
+      }
+    });
+
+  } catch (error) {
+    console.error("Error posting chat message:", error);
+    handleChatError(res, error, "Failed to process message");
+  }
+};
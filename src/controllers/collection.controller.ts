@@ -0,0 +1,458 @@
+import { Request, Response } from "express";
+import prisma from "../prisma.js";
+import { getCollectionScope } from "../services/collection.service.js";
+
+// Constants
+const MAX_NAME_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 2000;
+const MAX_ITEMS_PER_REQUEST = 500;
+
+const readUserId = (value: unknown): string | null => {
+  if (!value || typeof value !== 'string' || value.trim().length === 0) {
+    return null;
+  }
+  return value.trim();
+};
+
+const validateCollectionFields = (
+  name: unknown,
+  description: unknown,
+  parentId: unknown,
+  requireName: boolean
+): string | null => {
+  if (name !== undefined || requireName) {
+    if (!name || typeof name !== 'string' || name.trim().length === 0) {
+      return "Collection name is required and must be a non-empty string";
+    }
+    if (name.length > MAX_NAME_LENGTH) {
+      return `Collection name is too long (max ${MAX_NAME_LENGTH} characters)`;
+    }
+  }
+
+  if (description !== undefined && description !== null) {
+    if (typeof description !== 'string') {
+      return "Description must be a string";
+    }
+    if (description.length > MAX_DESCRIPTION_LENGTH) {
+      return `Description is too long (max ${MAX_DESCRIPTION_LENGTH} characters)`;
+    }
+  }
+
+  // null moves the collection to the top level
+  if (parentId !== undefined && parentId !== null) {
+    if (typeof parentId !== 'string' || parentId.trim().length === 0) {
+      return "Parent ID must be a non-empty string or null";
+    }
+  }
+
+  return null;
+};
+
+const handleCollectionError = (res: Response, error: unknown, fallbackMessage: string) => {
+  if (error instanceof Error) {
+    if (error.name === 'PrismaClientKnownRequestError') {
+      res.status(400).json({
+        error: "Database operation failed",
+        details: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+      return;
+    }
+
+    if (error.name === 'PrismaClientUnknownRequestError') {
+      res.status(500).json({
+        error: "Unknown database error occurred"
+      });
+      return;
+    }
+  }
+
+  res.status(500).json({
+    error: fallbackMessage,
+    details: process.env.NODE_ENV === 'development' ? error : undefined
+  });
+};
+
+export const getCollections = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const userId = readUserId(req.query.userId);
+    if (!userId) {
+      res.status(400).json({ error: "User ID is required" });
+      return;
+    }
+
+    // Flat list; clients build the tree from parentId
+    const collections = await prisma.collection.findMany({
+      where: { userId },
+      orderBy: { name: "asc" },
+      select: {
+        id: true,
+        name: true,
+        description: true,
+        parentId: true,
+        createdAt: true,
+        updatedAt: true,
+        _count: {
+          select: { items: { where: { content: { deletedAt: null } } } }
+        }
+      }
+    });
+
+    res.status(200).json({
+      success: true,
+      data: collections.map(({ _count, ...collection }) => ({
+        ...collection,
+        itemCount: _count.items
+      })),
+      count: collections.length
+    });
+
+  } catch (error) {
+    console.error("Error fetching collections:", error);
+    handleCollectionError(res, error, "Failed to fetch collections");
+  }
+};
+
+export const getCollectionById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const userId = readUserId(req.query.userId);
+    if (!userId) {
+      res.status(400).json({ error: "User ID is required" });
+      return;
+    }
+
+    const collection = await prisma.collection.findFirst({
+      where: { id: req.params.id, userId },
+      select: {
+        id: true,
+        name: true,
+        description: true,
+        parentId: true,
+        createdAt: true,
+        updatedAt: true,
+        children: {
+          orderBy: { name: "asc" },
+          select: { id: true, name: true, description: true }
+        },
+        items: {
+          where: { content: { deletedAt: null } },
+          orderBy: { addedAt: "desc" },
+          select: {
+            addedAt: true,
+            content: {
+              select: {
+                id: true,
+                type: true,
+                title: true,
+                tags: true,
+                url: true,
+                createdAt: true
+              }
+            }
+          }
+        }
+      }
+    });
+
+    if (!collection) {
+      res.status(404).json({ error: "Collection not found" });
+      return;
+    }
+
+    const { items, ...rest } = collection;
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...rest,
+        items: items.map(item => ({ ...item.content, addedAt: item.addedAt }))
+      }
+    });
+
+  } catch (error) {
+    console.error("Error fetching collection:", error);
+    handleCollectionError(res, error, "Failed to fetch collection");
+  }
+};
+
+export const createCollection = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const { name, description, parentId } = req.body;
+    const userId = readUserId(req.body.userId);
+    if (!userId) {
+      res.status(400).json({ error: "User ID is required and must be a string" });
+      return;
+    }
+
+    const validationError = validateCollectionFields(name, description, parentId, true);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    if (parentId !== undefined && parentId !== null) {
+      const parent = await prisma.collection.findFirst({
+        where: { id: parentId, userId },
+        select: { id: true }
+      });
+
+      if (!parent) {
+        res.status(404).json({ error: "Parent collection not found" });
+        return;
+      }
+    }
+
+    const collection = await prisma.collection.create({
+      data: {
+        userId,
+        name: name.trim(),
+        description: description?.trim() || null,
+        parentId: parentId ?? null
+      }
+    });
+
+    res.status(201).json({
+      success: true,
+      data: collection,
+      message: "Collection created successfully"
+    });
+
+  } catch (error) {
+    console.error("Error creating collection:", error);
+    handleCollectionError(res, error, "Failed to create collection");
+  }
+};
+
+export const updateCollection = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const { id } = req.params;
+    const { name, description, parentId } = req.body;
+    const userId = readUserId(req.body.userId);
+    if (!userId) {
+      res.status(400).json({ error: "User ID is required and must be a string" });
+      return;
+    }
+
+    if (name === undefined && description === undefined && parentId === undefined) {
+      res.status(400).json({ error: "Nothing to update. Provide a name, description and/or parentId" });
+      return;
+    }
+
+    const validationError = validateCollectionFields(name, description, parentId, false);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    // The scope holds this collection and everything below it, which is
+    // exactly the set of parents that would create a cycle
+    const scope = await getCollectionScope(userId, id);
+    if (!scope) {
+      res.status(404).json({ error: "Collection not found" });
+      return;
+    }
+
+    if (parentId !== undefined && parentId !== null) {
+      if (scope.includes(parentId)) {
+        res.status(400).json({ error: "A collection cannot be moved inside itself or one of its children" });
+        return;
+      }
+
+      const parent = await prisma.collection.findFirst({
+        where: { id: parentId, userId },
+        select: { id: true }
+      });
+
+      if (!parent) {
+        res.status(404).json({ error: "Parent collection not found" });
+        return;
+      }
+    }
+
+    const collection = await prisma.collection.update({
+      where: { id },
+      data: {
+        ...(name !== undefined && { name: name.trim() }),
+        ...(description !== undefined && { description: description?.trim() || null }),
+        ...(parentId !== undefined && { parentId })
+      }
+    });
+
+    res.status(200).json({
+      success: true,
+      data: collection,
+      message: "Collection updated successfully"
+    });
+
+  } catch (error) {
+    console.error("Error updating collection:", error);
+    handleCollectionError(res, error, "Failed to update collection");
+  }
+};
+
+export const deleteCollection = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const userId = readUserId(req.body.userId ?? req.query.userId);
+    if (!userId) {
+      res.status(400).json({ error: "User ID is required" });
+      return;
+    }
+
+    const collection = await prisma.collection.findFirst({
+      where: { id: req.params.id, userId },
+      select: { id: true, name: true }
+    });
+
+    if (!collection) {
+      res.status(404).json({ error: "Collection not found" });
+      return;
+    }
+
+    // Nested collections and memberships cascade; the content itself is kept
+    await prisma.collection.delete({ where: { id: collection.id } });
+
+    res.status(200).json({
+      success: true,
+      message: "Collection deleted successfully",
+      deletedCollection: collection
+    });
+
+  } catch (error) {
+    console.error("Error deleting collection:", error);
+    handleCollectionError(res, error, "Failed to delete collection");
+  }
+};
+
+export const addCollectionItems = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const { contentIds } = req.body;
+    const userId = readUserId(req.body.userId);
+    if (!userId) {
+      res.status(400).json({ error: "User ID is required and must be a string" });
+      return;
+    }
+
+    if (
+      !Array.isArray(contentIds) ||
+      contentIds.length === 0 ||
+      !contentIds.every(contentId => typeof contentId === 'string')
+    ) {
+      res.status(400).json({ error: "contentIds must be a non-empty array of strings" });
+      return;
+    }
+
+    if (contentIds.length > MAX_ITEMS_PER_REQUEST) {
+      res.status(400).json({ error: `Too many items (max ${MAX_ITEMS_PER_REQUEST})` });
+      return;
+    }
+
+    const collection = await prisma.collection.findFirst({
+      where: { id: req.params.id, userId },
+      select: { id: true }
+    });
+
+    if (!collection) {
+      res.status(404).json({ error: "Collection not found" });
+      return;
+    }
+
+    const ownedContent = await prisma.content.findMany({
+      where: { id: { in: contentIds }, userId, deletedAt: null },
+      select: { id: true }
+    });
+
+    const ownedIds = ownedContent.map(item => item.id);
+    const rejectedIds = contentIds.filter((contentId: string) => !ownedIds.includes(contentId));
+
+    const { count } = await prisma.collectionItem.createMany({
+      data: ownedIds.map(contentId => ({ collectionId: collection.id, contentId })),
+      skipDuplicates: true
+    });
+
+    res.status(200).json({
+      success: rejectedIds.length === 0,
+      data: {
+        added: count,
+        alreadyPresent: ownedIds.length - count,
+        notFound: rejectedIds
+      },
+      message: "Items added to collection"
+    });
+
+  } catch (error) {
+    console.error("Error adding items to collection:", error);
+    handleCollectionError(res, error, "Failed to add items to collection");
+  }
+};
+
+export const removeCollectionItem = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const userId = readUserId(req.body.userId ?? req.query.userId);
+    if (!userId) {
+      res.status(400).json({ error: "User ID is required" });
+      return;
+    }
+
+    const collection = await prisma.collection.findFirst({
+      where: { id: req.params.id, userId },
+      select: { id: true }
+    });
+
+    if (!collection) {
+      res.status(404).json({ error: "Collection not found" });
+      return;
+    }
+
+    const { count } = await prisma.collectionItem.deleteMany({
+      where: { collectionId: collection.id, contentId: req.params.contentId }
+    });
+
+    if (count === 0) {
+      res.status(404).json({ error: "Item is not in this collection" });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Item removed from collection"
+    });
+
+  } catch (error) {
+    console.error("Error removing item from collection:", error);
+    handleCollectionError(res, error, "Failed to remove item from collection");
+  }
+};
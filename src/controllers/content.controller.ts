@@ -1,5 +1,148 @@
 import { Request, Response } from "express";
+import { ContentType, Prisma } from "@prisma/client";
 import prisma from "../prisma.js";
+import { generateEmbedding } from "../services/embedding.service.js";
+import {
+  buildEmbeddingText,
+  getPurgeDate,
+  normalizeTags,
+  parseTagFilter,
+  tagFilterWhere,
+  updateContentRecord,
+} from "../services/content.service.js";
+import { resolvePendingLinks } from "../services/wikiLink.service.js";
+import { collectionFilterWhere, getCollectionScope } from "../services/collection.service.js";
+
+interface ListingCursor {
+  createdAt: Date;
+  id: string;
+}
+
+// Pagination constants
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// Fields a client may request through `fields`; id and createdAt are always
+// returned because the cursor is built from them
+const LISTING_FIELDS = {
+  id: true,
+  type: true,
+  title: true,
+  content: true,
+  tags: true,
+  url: true,
+  metadata: true,
+  status: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+const DEFAULT_LISTING_FIELDS: Prisma.ContentSelect = {
+  id: true,
+  type: true,
+  title: true,
+  content: true,
+  tags: true,
+  url: true,
+  metadata: true,
+  status: true,
+  createdAt: true,
+};
+
+const CONTENT_TYPES: ContentType[] = ["NOTE", "DOCUMENT", "LINK"];
+
+// Cursors are opaque to clients: base64url of "<createdAt ISO>|<id>"
+const encodeCursor = (item: { createdAt?: Date; id?: string }): string =>
+  Buffer.from(`${item.createdAt?.toISOString()}|${item.id}`).toString("base64url");
+
+const decodeCursor = (value: unknown): ListingCursor | null => {
+  if (typeof value !== 'string' || value.length === 0) {
+    return null;
+  }
+
+  const decoded = Buffer.from(value, "base64url").toString("utf8");
+  const separatorIndex = decoded.indexOf("|");
+  if (separatorIndex === -1) {
+    return null;
+  }
+
+  const createdAt = new Date(decoded.slice(0, separatorIndex));
+  const id = decoded.slice(separatorIndex + 1);
+
+  if (isNaN(createdAt.getTime()) || id.length === 0) {
+    return null;
+  }
+
+  return { createdAt, id };
+};
+
+const parseFieldProjection = (fields: unknown): Prisma.ContentSelect | null => {
+  if (fields === undefined) {
+    return DEFAULT_LISTING_FIELDS;
+  }
+
+  if (typeof fields !== 'string') {
+    return null;
+  }
+
+  const requested = fields.split(',').map(field => field.trim()).filter(Boolean);
+  if (requested.some(field => !(field in LISTING_FIELDS))) {
+    return null;
+  }
+
+  const select: Prisma.ContentSelect = { id: true, createdAt: true };
+  for (const field of requested) {
+    select[field as keyof typeof LISTING_FIELDS] = true;
+  }
+  return select;
+};
+
+const parseDateParam = (value: unknown): Date | null | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = new Date(value as string);
+  return typeof value === 'string' && !isNaN(date.getTime()) ? date : null;
+};
+
+// Parses the type, date range and hasUrl filters of the listing endpoint
+const parseListingFilters = (
+  query: Request["query"]
+): { where: Prisma.ContentWhereInput; error?: string } => {
+  const where: Prisma.ContentWhereInput = {};
+
+  if (query.type !== undefined) {
+    const types = String(query.type).split(',').map(type => type.trim().toUpperCase());
+    if (!types.every(type => CONTENT_TYPES.includes(type as ContentType))) {
+      return { where, error: `Invalid type. Allowed values: ${CONTENT_TYPES.join(', ')}` };
+    }
+    where.type = { in: types as ContentType[] };
+  }
+
+  const from = parseDateParam(query.from);
+  const to = parseDateParam(query.to);
+  if (from === null || to === null) {
+    return { where, error: "Invalid date range. Use ISO 8601 dates for from/to" };
+  }
+  if (from && to && from > to) {
+    return { where, error: "Invalid date range. 'from' must be before 'to'" };
+  }
+  if (from || to) {
+    where.createdAt = {
+      ...(from && { gte: from }),
+      ...(to && { lte: to })
+    };
+  }
+
+  if (query.hasUrl !== undefined) {
+    if (query.hasUrl !== "true" && query.hasUrl !== "false") {
+      return { where, error: "hasUrl must be 'true' or 'false'" };
+    }
+    where.url = query.hasUrl === "true" ? { not: null } : null;
+  }
+
+  return { where };
+};
 
 export const getAllContent = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -20,24 +163,100 @@ export const getAllContent = async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    const content = await prisma.content.findMany({
-      where: { userId: userId.trim() },
-      orderBy: { createdAt: "desc" },
-      select: {
-        id: true,
-        type: true,
-        title: true,
-        content: true,
-        url: true,
-        metadata: true,
-        createdAt: true,
-      },
-    });
+    const { filter: tagFilter, error: tagError } = parseTagFilter(req.query.tags, req.query.tagMode);
+    if (tagError) {
+      res.status(400).json({ error: tagError });
+      return;
+    }
+
+    const listingFilters = parseListingFilters(req.query);
+    if (listingFilters.error) {
+      res.status(400).json({ error: listingFilters.error });
+      return;
+    }
+
+    const select = parseFieldProjection(req.query.fields);
+    if (!select) {
+      res.status(400).json({
+        error: "Invalid fields parameter",
+        allowedFields: Object.keys(LISTING_FIELDS)
+      });
+      return;
+    }
+
+    let cursor: ListingCursor | null = null;
+    if (req.query.cursor !== undefined) {
+      cursor = decodeCursor(req.query.cursor);
+      if (!cursor) {
+        res.status(400).json({ error: "Invalid cursor" });
+        return;
+      }
+    }
+
+    // Optional collection scope, including nested collections unless disabled
+    let collectionIds: string[] | null = null;
+    if (req.query.collectionId !== undefined) {
+      collectionIds = await getCollectionScope(
+        userId.trim(),
+        String(req.query.collectionId),
+        req.query.includeNested !== "false"
+      );
+      if (!collectionIds) {
+        res.status(404).json({ error: "Collection not found" });
+        return;
+      }
+    }
+
+    const limit = Math.min(
+      Math.max(1, parseInt(req.query.limit as string) || DEFAULT_PAGE_SIZE),
+      MAX_PAGE_SIZE
+    );
+
+    const where: Prisma.ContentWhereInput = {
+      userId: userId.trim(),
+      deletedAt: null,
+      ...listingFilters.where,
+      ...(tagFilter && tagFilterWhere(tagFilter)),
+      ...(collectionIds && collectionFilterWhere(collectionIds))
+    };
+
+    // Rows strictly after the cursor in (createdAt DESC, id DESC) order
+    const pageWhere: Prisma.ContentWhereInput = cursor
+      ? {
+          AND: [
+            where,
+            {
+              OR: [
+                { createdAt: { lt: cursor.createdAt } },
+                { createdAt: cursor.createdAt, id: { lt: cursor.id } }
+              ]
+            }
+          ]
+        }
+      : where;
+
+    // Fetch one extra row to know whether another page exists
+    const [rows, total] = await Promise.all([
+      prisma.content.findMany({
+        where: pageWhere,
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        select,
+        take: limit + 1,
+      }),
+      prisma.content.count({ where }),
+    ]);
+
+    const hasMore = rows.length > limit;
+    const content = hasMore ? rows.slice(0, limit) : rows;
+    const lastItem = content[content.length - 1];
 
     res.status(200).json({
       success: true,
       data: content,
-      count: content.length
+      count: content.length,
+      total,
+      hasMore,
+      nextCursor: hasMore && lastItem ? encodeCursor(lastItem) : null
     });
 
   } catch (error) {
@@ -101,6 +320,7 @@ export const deleteContent = async (req: Request, res: Response): Promise<void>
     const existingNote = await prisma.content.findFirst({
       where: { 
         id: id.trim(),
+        deletedAt: null,
       },
       select: { 
         id: true, 
@@ -120,17 +340,21 @@ export const deleteContent = async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    // Delete the note
-    await prisma.content.delete({
+    // Move the note to the trash; trashPurgeCron removes it for good later
+    const trashedNote = await prisma.content.update({
       where: { id: id.trim() },
+      data: { deletedAt: new Date() },
+      select: { deletedAt: true }
     });
 
     res.status(200).json({
       success: true,
-      message: "Note deleted successfully",
+      message: "Note moved to trash",
       deletedNote: {
         id: existingNote.id,
-        title: existingNote.title
+        title: existingNote.title,
+        deletedAt: trashedNote.deletedAt,
+        purgeAt: getPurgeDate(trashedNote.deletedAt as Date)
       }
     });
 
@@ -166,4 +390,277 @@ export const deleteContent = async (req: Request, res: Response): Promise<void>
       details: process.env.NODE_ENV === 'development' ? error : undefined
     });
   }
+};
+
+export const updateContent = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const { id } = req.params;
+    const { userId, title, tags } = req.body;
+
+    if (!id || id.trim().length === 0) {
+      res.status(400).json({ error: "Content ID is required" });
+      return;
+    }
+
+    if (!userId || typeof userId !== 'string' || userId.trim().length === 0) {
+      res.status(400).json({ error: "User ID is required and must be a string" });
+      return;
+    }
+
+    if (title === undefined && tags === undefined) {
+      res.status(400).json({ error: "Nothing to update. Provide a title and/or tags" });
+      return;
+    }
+
+    if (title !== undefined) {
+      if (typeof title !== 'string' || title.trim().length === 0) {
+        res.status(400).json({ error: "Title must be a non-empty string" });
+        return;
+      }
+
+      if (title.length > 500) {
+        res.status(400).json({ error: "Title is too long (max 500 characters)" });
+        return;
+      }
+    }
+
+    const normalizedTags = normalizeTags(tags);
+    if (normalizedTags.error) {
+      res.status(400).json({ error: normalizedTags.error });
+      return;
+    }
+
+    const existingContent = await prisma.content.findFirst({
+      where: { id: id.trim(), deletedAt: null },
+      select: {
+        id: true,
+        userId: true,
+        type: true,
+        title: true,
+        content: true,
+        createdAt: true
+      }
+    });
+
+    if (!existingContent) {
+      res.status(404).json({ error: "Content not found" });
+      return;
+    }
+
+    if (existingContent.userId !== userId.trim()) {
+      res.status(403).json({ error: "You don't have permission to edit this content" });
+      return;
+    }
+
+    const nextTitle = title !== undefined ? title.trim() : existingContent.title;
+
+    // Notes keep unique titles, as in createNote and updateNote
+    if (existingContent.type === "NOTE" && title !== undefined && nextTitle !== existingContent.title) {
+      const duplicateNote = await prisma.content.findFirst({
+        where: {
+          title: nextTitle,
+          userId: existingContent.userId,
+          type: "NOTE",
+          deletedAt: null,
+          NOT: { id: existingContent.id }
+        },
+        select: { id: true }
+      });
+
+      if (duplicateNote) {
+        res.status(409).json({
+          error: "A note with this title already exists",
+          existingNoteId: duplicateNote.id
+        });
+        return;
+      }
+    }
+
+    // Re-embed only when the text that feeds the embedding actually changed
+    const previousEmbeddingText = buildEmbeddingText(existingContent);
+    const nextEmbeddingText = buildEmbeddingText({ ...existingContent, title: nextTitle });
+
+    let embedding: number[] | undefined;
+    if (nextEmbeddingText !== previousEmbeddingText) {
+      try {
+        embedding = await generateEmbedding(nextEmbeddingText);
+      } catch (error) {
+        console.error("Error generating embedding:", error);
+        res.status(500).json({
+          error: "Failed to process content",
+          details: process.env.NODE_ENV === 'development' ? error : undefined
+        });
+        return;
+      }
+    }
+
+    const updatedContent = await updateContentRecord(existingContent.id, {
+      ...(title !== undefined && { title: nextTitle as string }),
+      ...(tags !== undefined && { tags: normalizedTags.tags }),
+      ...(embedding && { embedding })
+    });
+
+    if (!updatedContent) {
+      res.status(404).json({ error: "Content not found" });
+      return;
+    }
+
+    if (title !== undefined) {
+      await resolvePendingLinks(updatedContent.userId, updatedContent.id, updatedContent.title);
+    }
+
+    res.status(200).json({
+      success: true,
+      data: updatedContent,
+      reembedded: embedding !== undefined,
+      message: "Content updated successfully"
+    });
+
+  } catch (error) {
+    console.error("Error updating content:", error);
+
+    if (error instanceof Error) {
+      if (error.name === 'PrismaClientKnownRequestError') {
+        res.status(400).json({
+          error: "Database operation failed",
+          details: process.env.NODE_ENV === 'development' ? error.message : undefined
+        });
+        return;
+      }
+
+      if (error.name === 'PrismaClientUnknownRequestError') {
+        res.status(500).json({
+          error: "Unknown database error occurred"
+        });
+        return;
+      }
+    }
+
+    res.status(500).json({
+      error: "Failed to update content",
+      details: process.env.NODE_ENV === 'development' ? error : undefined
+    });
+  }
+};
+
+export const getTrash = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const userId = req.query.userId;
+
+    if (!userId || typeof userId !== 'string' || userId.trim().length === 0) {
+      res.status(400).json({ error: "User ID is required" });
+      return;
+    }
+
+    const trashed = await prisma.content.findMany({
+      where: {
+        userId: userId.trim(),
+        deletedAt: { not: null }
+      },
+      orderBy: { deletedAt: "desc" },
+      select: {
+        id: true,
+        type: true,
+        title: true,
+        tags: true,
+        url: true,
+        metadata: true,
+        createdAt: true,
+        deletedAt: true,
+      },
+    });
+
+    res.status(200).json({
+      success: true,
+      data: trashed.map(item => ({
+        ...item,
+        purgeAt: getPurgeDate(item.deletedAt as Date)
+      })),
+      count: trashed.length
+    });
+
+  } catch (error) {
+    console.error("Error fetching trash:", error);
+    res.status(500).json({
+      error: "Failed to fetch trash",
+      details: process.env.NODE_ENV === 'development' ? error : undefined
+    });
+  }
+};
+
+export const restoreContent = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const { id } = req.params;
+    const { userId } = req.body;
+
+    if (!id || id.trim().length === 0) {
+      res.status(400).json({ error: "Content ID is required" });
+      return;
+    }
+
+    if (!userId || typeof userId !== 'string' || userId.trim().length === 0) {
+      res.status(400).json({ error: "User ID is required and must be a string" });
+      return;
+    }
+
+    const trashedContent = await prisma.content.findFirst({
+      where: {
+        id: id.trim(),
+        deletedAt: { not: null }
+      },
+      select: { id: true, userId: true }
+    });
+
+    if (!trashedContent) {
+      res.status(404).json({ error: "Content not found in trash" });
+      return;
+    }
+
+    if (trashedContent.userId !== userId.trim()) {
+      res.status(403).json({ error: "You don't have permission to restore this content" });
+      return;
+    }
+
+    const restored = await prisma.content.update({
+      where: { id: trashedContent.id },
+      data: { deletedAt: null },
+      select: {
+        id: true,
+        type: true,
+        title: true,
+        tags: true,
+        url: true,
+        createdAt: true,
+        updatedAt: true,
+      }
+    });
+
+    res.status(200).json({
+      success: true,
+      data: restored,
+      message: "Content restored from trash"
+    });
+
+  } catch (error) {
+    console.error("Error restoring content:", error);
+    res.status(500).json({
+      error: "Failed to restore content",
+      details: process.env.NODE_ENV === 'development' ? error : undefined
+    });
+  }
 };
\ No newline at end of file
@@ -1,6 +1,9 @@
 import { Request, Response } from "express";
-import { processDocument } from "../services/document.service.js";
-import { uploadToTebiStorage } from "../services/tebiStorage.service.js";
+import { normalizeTags, PENDING_CONTENT_FIELDS } from "../services/content.service.js";
+import { parseDuplicateOptions } from "../services/duplicate.service.js";
+import { enqueueJob, kickJobWorker } from "../services/jobQueue.service.js";
+import { DocumentJobPayload } from "../services/ingestion.service.js";
+import { deleteFromTebiStorage, getTebiObjectKey, uploadToTebiStorage } from "../services/tebiStorage.service.js";
 import prisma from "../prisma.js";
 
 export const uploadDocument = async (req: Request, res: Response): Promise<void> => {
@@ -10,7 +13,7 @@ export const uploadDocument = async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    const { userId } = req.body;
+    const { userId, tags } = req.body;
     const file = req.file;
 
     if (!file) {
@@ -33,6 +36,18 @@ export const uploadDocument = async (req: Request, res: Response): Promise<void>
       return;
     }
 
+    const normalizedTags = normalizeTags(tags);
+    if (normalizedTags.error) {
+      res.status(400).json({ error: normalizedTags.error });
+      return;
+    }
+
+    const { options: duplicateOptions, error: duplicateError } = parseDuplicateOptions(req.body);
+    if (duplicateError) {
+      res.status(400).json({ error: duplicateError });
+      return;
+    }
+
     const maxFileSize = 50 * 1024 * 1024; // 50MB
     if (file.size > maxFileSize) {
       res.status(400).json({ error: "File size too large. Maximum 50MB allowed" });
@@ -55,90 +70,60 @@ export const uploadDocument = async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    let tebiFileUrl: string;
-    let processedData: { content: string; embedding: number[]; metadata: any };
-
-    try {
-      tebiFileUrl = await uploadToTebiStorage(file);
-    } catch (error) {
-      console.error("Error uploading to Tebi Storage:", error);
-      res.status(500).json({ 
-        error: "Failed to upload file to storage",
-        details: process.env.NODE_ENV === 'development' ? error : undefined
-      });
-      return;
-    }
-
-    try {
-      processedData = await processDocument(file);
-    } catch (error) {
-      console.error("Error processing document:", error);
-      res.status(500).json({ 
-        error: "Failed to process document",
-        details: process.env.NODE_ENV === 'development' ? error : undefined
+    const payload: DocumentJobPayload = {
+      fileName: file.originalname,
+      mimeType: file.mimetype,
+      size: file.size,
+      tags: normalizedTags.tags,
+      onDuplicate: duplicateOptions.mode,
+      duplicateThreshold: duplicateOptions.threshold
+    };
+
+    // The file goes to storage straight away and the job only keeps its key.
+    // Extraction, embedding and the duplicate check run in the background job.
+    const fileUrl = await uploadToTebiStorage(file);
+    const fileKey = getTebiObjectKey(fileUrl);
+
+    const { document, job } = await prisma.$transaction(async (tx) => {
+      const document = await tx.content.create({
+        data: {
+          userId: userId.trim(),
+          type: "DOCUMENT",
+          title: file.originalname,
+          url: fileUrl,
+          tags: normalizedTags.tags,
+          metadata: { fileName: file.originalname, fileSize: file.size, mimeType: file.mimetype },
+          status: "PENDING"
+        },
+        select: PENDING_CONTENT_FIELDS
       });
-      return;
-    }
-
-    const { content, embedding, metadata } = processedData;
-
-    if (!content || !embedding || !metadata) {
-      res.status(500).json({ error: "Document processing returned invalid data" });
-      return;
-    }
-
-    if (!Array.isArray(embedding) || embedding.length === 0) {
-      res.status(500).json({ error: "Invalid embedding data" });
-      return;
-    }
 
-    if (!metadata.fileName) {
-      metadata.fileName = file.originalname;
-    }
+      const job = await enqueueJob({
+        userId: userId.trim(),
+        type: "INGEST_DOCUMENT",
+        contentId: document.id,
+        payload: { ...payload },
+        fileKey
+      }, tx);
+
+      return { document, job };
+    }).catch(async (error) => {
+      // Nothing refers to the stored file yet
+      await deleteFromTebiStorage(fileUrl).catch(cleanupError =>
+        console.error("Error removing stored file of a failed upload:", cleanupError)
+      );
+      throw error;
+    });
 
-    const contentType = "DOCUMENT";
-
-    const document = await prisma.$queryRaw`
-      WITH inserted AS (
-        INSERT INTO "Content" (id, url, title, content, embedding, "userId", "type", "createdAt", "updatedAt", metadata)
-        VALUES (
-          gen_random_uuid(),
-          ${tebiFileUrl},
-          ${metadata.fileName},
-          ${content},
-          ${embedding}::vector,
-          ${userId.trim()},
-          ${contentType}::"ContentType",
-          NOW(),
-          NOW(),
-          ${JSON.stringify(metadata)}::jsonb
-        )
-        RETURNING *
-      )
-      SELECT 
-        id,
-        url,
-        title,
-        content,
-        "userId",
-        type,
-        metadata,
-        "createdAt",
-        "updatedAt"
-      FROM inserted;
-    `;
-
-    const insertedDocument = Array.isArray(document) ? document[0] : document;
-
-    if (!insertedDocument) {
-      res.status(500).json({ error: "Failed to create document record" });
-      return;
-    }
+    kickJobWorker();
 
-    res.status(201).json({
+    res.status(202).json({
       success: true,
-      data: insertedDocument,
-      message: "Document uploaded and processed successfully"
+      data: document,
+      jobId: job.id,
+      jobStatus: job.status,
+      statusUrl: `/api/v1/jobs/${job.id}`,
+      message: "Document queued for processing"
     });
 
   } catch (error) {
@@ -0,0 +1,153 @@
+import { Request, Response } from "express";
+import prisma from "../prisma.js";
+import { kickJobWorker, retryJob, runPendingJobs } from "../services/jobQueue.service.js";
+import "../services/ingestion.service.js";
+
+// Everything but the stored file
+const JOB_FIELDS = {
+  id: true,
+  type: true,
+  status: true,
+  contentId: true,
+  result: true,
+  error: true,
+  attempts: true,
+  maxAttempts: true,
+  runAt: true,
+  finishedAt: true,
+  createdAt: true,
+  updatedAt: true,
+  content: {
+    select: { id: true, type: true, title: true, status: true }
+  }
+} as const;
+
+// How long one cron call keeps claiming new jobs. It has to leave room for
+// the last job to finish within the function's time limit.
+const WORKER_TIME_BUDGET_MS = parseInt(process.env.JOB_WORKER_TIME_BUDGET_MS || "30000") || 30000;
+
+const readUserId = (value: unknown): string | null => {
+  if (!value || typeof value !== 'string' || value.trim().length === 0) {
+    return null;
+  }
+  return value.trim();
+};
+
+const handleJobError = (res: Response, error: unknown, fallbackMessage: string) => {
+  if (error instanceof Error && error.name === 'PrismaClientKnownRequestError') {
+    res.status(400).json({
+      error: "Database operation failed",
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+    return;
+  }
+
+  res.status(500).json({
+    error: fallbackMessage,
+    details: process.env.NODE_ENV === 'development' ? error : undefined
+  });
+};
+
+export const getJobById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const userId = readUserId(req.query.userId);
+    if (!userId) {
+      res.status(400).json({ error: "User ID is required" });
+      return;
+    }
+
+    const job = await prisma.job.findFirst({
+      where: { id: req.params.id, userId },
+      select: JOB_FIELDS
+    });
+
+    if (!job) {
+      res.status(404).json({ error: "Job not found" });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: job
+    });
+
+  } catch (error) {
+    console.error("Error fetching job:", error);
+    handleJobError(res, error, "Failed to fetch job");
+  }
+};
+
+export const retryFailedJob = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const userId = readUserId(req.body.userId);
+    if (!userId) {
+      res.status(400).json({ error: "User ID is required and must be a string" });
+      return;
+    }
+
+    const job = await prisma.job.findFirst({
+      where: { id: req.params.id, userId },
+      select: { id: true, status: true, contentId: true }
+    });
+
+    if (!job) {
+      res.status(404).json({ error: "Job not found" });
+      return;
+    }
+
+    if (job.status !== "FAILED") {
+      res.status(409).json({ error: "Only failed jobs can be retried" });
+      return;
+    }
+
+    if (!job.contentId) {
+      res.status(409).json({ error: "The content for this job no longer exists" });
+      return;
+    }
+
+    await retryJob(job.id);
+    kickJobWorker();
+
+    const requeued = await prisma.job.findUnique({
+      where: { id: job.id },
+      select: JOB_FIELDS
+    });
+
+    res.status(202).json({
+      success: true,
+      data: requeued,
+      message: "Job queued for another attempt"
+    });
+
+  } catch (error) {
+    console.error("Error retrying job:", error);
+    handleJobError(res, error, "Failed to retry job");
+  }
+};
+
+// Works through due jobs for the scheduler. The drain is awaited so a
+// serverless function stays alive until the jobs it claimed are done.
+export const runQueuedJobs = async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const processed = await runPendingJobs(WORKER_TIME_BUDGET_MS);
+
+    res.status(200).json({
+      success: true,
+      processed
+    });
+
+  } catch (error) {
+    console.error("Error running queued jobs:", error);
+    handleJobError(res, error, "Failed to run queued jobs");
+  }
+};
@@ -1,182 +1,126 @@
 import { Request, Response } from "express";
-import puppeteer from "puppeteer";
-import axios from "axios";
-import { generateEmbedding } from "../services/embedding.service.js";
+import { normalizeTags, PENDING_CONTENT_FIELDS } from "../services/content.service.js";
+import {
+  DuplicateCandidate,
+  DuplicateOptions,
+  findUrlDuplicates,
+  mergeIntoExisting,
+  parseDuplicateOptions,
+} from "../services/duplicate.service.js";
+import { enqueueJob, kickJobWorker } from "../services/jobQueue.service.js";
+import { LinkJobPayload } from "../services/ingestion.service.js";
 import prisma from "../prisma.js";
 
-type YouTubeApiResponse = {
-  items: { snippet: { title: string; description: string; thumbnails: { high?: { url: string } } } }[];
-};
+// Sends the 409 (or the merge result) for a link that already exists.
+// Returns false when there is nothing to report and creation should go on.
+const respondToDuplicates = async (
+  response: Response,
+  duplicates: DuplicateCandidate[],
+  options: DuplicateOptions,
+  tags: string[]
+): Promise<boolean> => {
+  if (duplicates.length === 0) return false;
+
+  if (options.mode === "merge") {
+    const merged = await mergeIntoExisting(duplicates[0].id, tags);
+    if (merged.error) {
+      response.status(409).json({ error: merged.error, duplicates });
+      return true;
+    }
 
-const YOUTUBE_API_KEY = process.env.YOUTUBE_API_KEY;
-
-const fetchTwitterMetadata = async (url: string) => {
-  const browser = await puppeteer.launch({ headless: true });
-  const page = await browser.newPage();
-
-  await page.setUserAgent(
-    "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36"
-  );
-
-  await page.goto(url, { waitUntil: "networkidle2", timeout: 60000 });
-  await page.waitForSelector("body");
-
-  const metadata = await page.evaluate(() => {
-    const tweetText =
-      document
-        .querySelector("article div[data-testid='tweetText']")
-        ?.textContent?.trim() || "No tweet content available";
-    const author =
-      document
-        .querySelector("article a[role='link'] span")
-        ?.textContent?.trim() || "Unknown author";
-
-    return {
-      title: `Tweet by ${author}`,
-      content: tweetText,
-      thumbnail: null,
-    };
-  });
+    response.status(200).json({
+      success: true,
+      merged: true,
+      data: merged.content,
+      duplicates,
+      message: "Merged into an existing link"
+    });
+    return true;
+  }
 
-  await browser.close();
-  return metadata;
+  response.status(409).json({
+    error: "This link has already been saved",
+    duplicates,
+    hint: "Pass onDuplicate=merge to merge into the existing link or onDuplicate=allow to save anyway"
+  });
+  return true;
 };
 
-const fetchYouTubeMetadata = async (url: string) => {
+// Validates the link and queues it for ingestion. The page fetch, embedding
+// and near-duplicate check happen in the background job.
+export const createLink = async (request: Request, response: Response) => {
   try {
-    const videoId = url.match(/(?:youtube\.com\/watch\?v=|youtu\.be\/)([^&]+)/)?.[1];
-    if (!videoId) throw new Error("Invalid YouTube URL");    
+    const { url, userId, tags } = request.body;
 
-    const response = await axios.get<YouTubeApiResponse>(
-      `https://www.googleapis.com/youtube/v3/videos?id=${videoId}&key=${YOUTUBE_API_KEY}&part=snippet`
-    );
-
-    const video = response.data.items[0]?.snippet;
-    if (!video) throw new Error("YouTube metadata not found");
-
-    return {
-      title: video.title,
-      content: video.description,
-      thumbnail: video.thumbnails.high?.url || null,
-    };
-  } catch (error) {
-    console.error("Error fetching YouTube metadata:", error);
-    return null;
-  }
-};
-
-const fetchWebsiteMetadata = async (url: string) => {
-  const browser = await puppeteer.launch({ headless: true });
-  const page = await browser.newPage();
-
-  await page.setUserAgent(
-    "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36"
-  );
+    if (!url || typeof url !== 'string' || url.trim().length === 0) {
+      return response.status(400).json({ error: "URL is required and must be a string" });
+    }
 
-  await page.goto(url, { waitUntil: "networkidle2", timeout: 60000 });
-  await page.waitForSelector("body");
+    if (!userId || typeof userId !== 'string' || userId.trim().length === 0) {
+      return response.status(400).json({ error: "User ID is required and must be a string" });
+    }
 
-  const metadata = await page.evaluate(() => {
-    const title = document.title || "No title available";
-    const bodyText = document.body.innerText?.trim() || "";
+    const normalizedTags = normalizeTags(tags);
+    if (normalizedTags.error) {
+      return response.status(400).json({ error: normalizedTags.error });
+    }
 
-    const ogImage = document.querySelector("meta[property='og:image']")?.getAttribute("content");
-    const favicon = document.querySelector("link[rel='icon']")?.getAttribute("href") ||
-      document.querySelector("link[rel='shortcut icon']")?.getAttribute("href");
-    const firstImg = document.querySelector("img")?.getAttribute("src");
+    const { options: duplicateOptions, error: duplicateError } = parseDuplicateOptions(request.body);
+    if (duplicateError) {
+      return response.status(400).json({ error: duplicateError });
+    }
 
-    const absoluteUrl = (imgUrl?: string | null): string | null => {
-      if (!imgUrl) return null;
-      return imgUrl.startsWith("http")
-        ? imgUrl
-        : new URL(imgUrl, window.location.origin).href;
-    };
+    // Same URL check runs first so known links are never queued
+    if (duplicateOptions.mode !== "allow") {
+      const urlDuplicates = await findUrlDuplicates(userId, url);
+      if (await respondToDuplicates(response, urlDuplicates, duplicateOptions, normalizedTags.tags)) {
+        return;
+      }
+    }
 
-    return {
-      title,
-      content: bodyText,
-      thumbnail:
-        absoluteUrl(ogImage) ||
-        absoluteUrl(favicon) ||
-        absoluteUrl(firstImg) ||
-        null,
+    const payload: LinkJobPayload = {
+      url: url.trim(),
+      tags: normalizedTags.tags,
+      onDuplicate: duplicateOptions.mode,
+      duplicateThreshold: duplicateOptions.threshold
     };
-  });
-
-  await browser.close();
-  return metadata;
-};
 
-export const createLink = async (request: Request, response: Response) => {
-  try {
-    const { url, userId } = request.body;
-    let metadata;
-
-    if (url.includes("twitter.com") || url.includes("x.com")) {
-      metadata = await fetchTwitterMetadata(url);
-    } else if (url.includes("https://www.youtube.com/watch") || url.includes("youtu.be")) {
-      metadata = await fetchYouTubeMetadata(url);
-    } else {
-      metadata = await fetchWebsiteMetadata(url);
-    }
-
-    if (!metadata) {
-      return response.status(400).json({ error: "Could not fetch metadata" });
-    }
+    // The placeholder shows up in listings as PENDING until the job fills it in
+    const { link, job } = await prisma.$transaction(async (tx) => {
+      const link = await tx.content.create({
+        data: {
+          userId: userId.trim(),
+          type: "LINK",
+          url: payload.url,
+          title: payload.url,
+          tags: payload.tags,
+          status: "PENDING"
+        },
+        select: PENDING_CONTENT_FIELDS
+      });
+
+      const job = await enqueueJob({
+        userId: userId.trim(),
+        type: "INGEST_LINK",
+        contentId: link.id,
+        payload: { ...payload }
+      }, tx);
+
+      return { link, job };
+    });
 
-    if (!metadata.title) {
-      return response
-        .status(400)
-        .json({ error: "Could not fetch metadata title" });
-    }
+    kickJobWorker();
 
-    const createdAt = new Date();
-    const embedding = await generateEmbedding(
-      `title: ${metadata.title}\nDate: ${createdAt}\nContent: ${metadata.content}`
-    );
-
-    const contentType = "LINK";
-    const metadataJson = { thumbnail: metadata.thumbnail };
-    
-    const note = await prisma.$queryRaw`
-      WITH inserted AS (
-        INSERT INTO "Content" (id, url, metadata, title, content, embedding, "userId", "type", "createdAt", "updatedAt")
-        VALUES (
-          gen_random_uuid(),
-          ${url},
-          ${JSON.stringify(metadataJson)}::jsonb,
-          ${metadata.title},
-          ${metadata.content},
-          ${embedding}::vector,
-          ${userId},
-          ${contentType}::"ContentType",
-          NOW(),
-          NOW()
-        )
-        RETURNING *
-      )
-      SELECT 
-        id,
-        url,
-        title,
-        content,
-        metadata,
-        "userId",
-        type,
-        "createdAt",
-        "updatedAt"
-      FROM inserted;
-    `;
-
-    const insertedLink = Array.isArray(note) ? note[0] : note;
-
-    response.status(201).json({
+    response.status(202).json({
       success: true,
-      data: insertedLink,
-      message: "Link created successfully"
+      data: link,
+      jobId: job.id,
+      jobStatus: job.status,
+      statusUrl: `/api/v1/jobs/${job.id}`,
+      message: "Link queued for processing"
     });
   } catch (error: any) {
     console.error("Error creating link:", error);
     response.status(500).json({ error: "Failed to create link" });
   }
-};
\ No newline at end of file
+};
@@ -1,6 +1,56 @@
 import { Request, Response } from "express";
 import prisma from "../prisma.js";
 import { generateEmbedding } from "../services/embedding.service.js";
+import { getEmbeddingSource } from "../services/embeddingProvider.service.js";
+import {
+  buildEmbeddingText,
+  normalizeTags,
+  updateContentRecord,
+} from "../services/content.service.js";
+import {
+  resolvePendingLinks,
+  syncContentLinks,
+  WikiLinkSyncResult,
+} from "../services/wikiLink.service.js";
+import {
+  findEmbeddingDuplicates,
+  mergeIntoExisting,
+  parseDuplicateOptions,
+} from "../services/duplicate.service.js";
+
+// Validation helpers shared by create and update
+const validateNoteTitle = (title: unknown): string | null => {
+  if (!title || typeof title !== 'string') {
+    return "Note title is required and must be a string";
+  }
+  if (title.trim().length === 0) {
+    return "Note title cannot be empty";
+  }
+  if (title.length > 500) {
+    return "Note title is too long (max 500 characters)";
+  }
+  return null;
+};
+
+const validateNoteContent = (content: unknown): string | null => {
+  if (!content || typeof content !== 'string') {
+    return "Note content is required and must be a string";
+  }
+  if (content.trim().length === 0) {
+    return "Note content cannot be empty";
+  }
+  if (content.length > 50000) {
+    return "Note content is too long (max 50,000 characters)";
+  }
+  return null;
+};
+
+const validateUserId = (userId: unknown): string | null => {
+  if (!userId || typeof userId !== 'string') {
+    return "User ID is required and must be a string";
+  }
+  return null;
+};
 
 export const createNote = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -10,42 +60,27 @@ export const createNote = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
-    const { title, content, userId } = req.body;
+    const { title, content, userId, tags } = req.body;
 
     // Validate required fields
-    if (!content || typeof content !== 'string') {
-      res.status(400).json({ error: "Note content is required and must be a string" });
-      return;
-    }
-
-    if (!title || typeof title !== 'string') {
-      res.status(400).json({ error: "Note title is required and must be a string" });
+    const validationError =
+      validateNoteContent(content) ??
+      validateNoteTitle(title) ??
+      validateUserId(userId);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
       return;
     }
 
-    if (!userId || typeof userId !== 'string') {
-      res.status(400).json({ error: "User ID is required and must be a string" });
+    const normalizedTags = normalizeTags(tags);
+    if (normalizedTags.error) {
+      res.status(400).json({ error: normalizedTags.error });
       return;
     }
 
-    // Validate input lengths
-    if (title.trim().length === 0) {
-      res.status(400).json({ error: "Note title cannot be empty" });
-      return;
-    }
-
-    if (content.trim().length === 0) {
-      res.status(400).json({ error: "Note content cannot be empty" });
-      return;
-    }
-
-    if (title.length > 500) {
-      res.status(400).json({ error: "Note title is too long (max 500 characters)" });
-      return;
-    }
-
-    if (content.length > 50000) {
-      res.status(400).json({ error: "Note content is too long (max 50,000 characters)" });
+    const { options: duplicateOptions, error: duplicateError } = parseDuplicateOptions(req.body);
+    if (duplicateError) {
+      res.status(400).json({ error: duplicateError });
       return;
     }
 
@@ -65,7 +100,8 @@ export const createNote = async (req: Request, res: Response): Promise<void> =>
       where: {
         title: title.trim(),
         userId: userId.trim(),
-        type: "NOTE"
+        type: "NOTE",
+        deletedAt: null
       },
       select: { id: true }
     });
@@ -81,11 +117,12 @@ export const createNote = async (req: Request, res: Response): Promise<void> =>
     const createdAt = new Date();
     
     // Generate embedding with better text formatting
-    const embeddingText = [
-      `Title: ${title.trim()}`,
-      `Date: ${createdAt.toISOString()}`,
-      `Content: ${content.trim()}`
-    ].join('\n');
+    const embeddingText = buildEmbeddingText({
+      type: "NOTE",
+      title,
+      content,
+      createdAt
+    });
 
     let embedding: number[];
     try {
@@ -105,17 +142,57 @@ export const createNote = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
+    // Check for near-duplicate notes by embedding similarity
+    if (duplicateOptions.mode !== "allow") {
+      const duplicates = await findEmbeddingDuplicates(
+        userId.trim(),
+        "NOTE",
+        embedding,
+        duplicateOptions.threshold
+      );
+
+      if (duplicates.length > 0) {
+        if (duplicateOptions.mode === "merge") {
+          const merged = await mergeIntoExisting(duplicates[0].id, normalizedTags.tags);
+          if (merged.error) {
+            res.status(409).json({ error: merged.error, duplicates });
+            return;
+          }
+
+          res.status(200).json({
+            success: true,
+            merged: true,
+            data: merged.content,
+            duplicates,
+            message: "Merged into an existing note"
+          });
+          return;
+        }
+
+        res.status(409).json({
+          error: "A similar note already exists",
+          duplicates,
+          hint: "Pass onDuplicate=merge to merge into the existing note or onDuplicate=allow to save anyway"
+        });
+        return;
+      }
+    }
+
     const contentType = "NOTE";
+    const embeddingSource = getEmbeddingSource();
 
     // Use $queryRaw instead of $executeRaw to return the created record
     const note = await prisma.$queryRaw`
       WITH inserted AS (
-        INSERT INTO "Content" (id, title, content, embedding, "userId", "type", "createdAt", "updatedAt")
+        INSERT INTO "Content" (id, title, content, tags, embedding, "embeddingProvider", "embeddingModel", "userId", "type", "createdAt", "updatedAt")
         VALUES (
           gen_random_uuid(),
           ${title.trim()}, 
           ${content.trim()}, 
+          ${normalizedTags.tags}::text[],
           ${embedding}::vector, 
+          ${embeddingSource.provider},
+          ${embeddingSource.model},
           ${userId.trim()}, 
           ${contentType}::"ContentType",
           NOW(), 
@@ -127,6 +204,7 @@ export const createNote = async (req: Request, res: Response): Promise<void> =>
         id,
         title,
         content,
+        tags,
         "userId",
         type,
         "createdAt",
@@ -142,9 +220,14 @@ export const createNote = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
+    // Store [[wiki links]] from the body and resolve links that were waiting for this title
+    const links = await syncContentLinks(createdNote.id, userId.trim(), content.trim());
+    await resolvePendingLinks(userId.trim(), createdNote.id, title.trim());
+
     res.status(201).json({
       success: true,
       data: createdNote,
+      links,
       message: "Note created successfully"
     });
 
@@ -201,6 +284,174 @@ export const createNote = async (req: Request, res: Response): Promise<void> =>
 };
 
 
+export const updateNote = async (req: Request, res: Response): Promise<void> => {
+  try {
+    // Check authentication first
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const { id } = req.params;
+    const { title, content, userId } = req.body;
+
+    if (!id || id.trim().length === 0) {
+      res.status(400).json({ error: "Note ID is required" });
+      return;
+    }
+
+    const userIdError = validateUserId(userId);
+    if (userIdError) {
+      res.status(400).json({ error: userIdError });
+      return;
+    }
+
+    if (title === undefined && content === undefined) {
+      res.status(400).json({ error: "Nothing to update. Provide a title and/or content" });
+      return;
+    }
+
+    // Validate only the fields being changed, with the same rules as createNote
+    const validationError =
+      (title !== undefined ? validateNoteTitle(title) : null) ??
+      (content !== undefined ? validateNoteContent(content) : null);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const existingNote = await prisma.content.findFirst({
+      where: {
+        id: id.trim(),
+        type: "NOTE",
+        deletedAt: null
+      },
+      select: {
+        id: true,
+        userId: true,
+        type: true,
+        title: true,
+        content: true,
+        createdAt: true
+      }
+    });
+
+    if (!existingNote) {
+      res.status(404).json({ error: "Note not found" });
+      return;
+    }
+
+    if (existingNote.userId !== userId.trim()) {
+      res.status(403).json({ error: "You don't have permission to edit this note" });
+      return;
+    }
+
+    const nextTitle = title !== undefined ? title.trim() : existingNote.title;
+    const nextContent = content !== undefined ? content.trim() : existingNote.content;
+
+    // Keep the same duplicate-title rule as createNote, ignoring this note
+    if (title !== undefined && nextTitle !== existingNote.title) {
+      const duplicateNote = await prisma.content.findFirst({
+        where: {
+          title: nextTitle,
+          userId: existingNote.userId,
+          type: "NOTE",
+          deletedAt: null,
+          NOT: { id: existingNote.id }
+        },
+        select: { id: true }
+      });
+
+      if (duplicateNote) {
+        res.status(409).json({
+          error: "A note with this title already exists",
+          existingNoteId: duplicateNote.id
+        });
+        return;
+      }
+    }
+
+    // Re-embed only when the text that feeds the embedding actually changed
+    const previousEmbeddingText = buildEmbeddingText(existingNote);
+    const nextEmbeddingText = buildEmbeddingText({
+      ...existingNote,
+      title: nextTitle,
+      content: nextContent
+    });
+
+    let embedding: number[] | undefined;
+    if (nextEmbeddingText !== previousEmbeddingText) {
+      try {
+        embedding = await generateEmbedding(nextEmbeddingText);
+      } catch (error) {
+        console.error("Error generating embedding:", error);
+        res.status(500).json({
+          error: "Failed to process note content",
+          details: process.env.NODE_ENV === 'development' ? error : undefined
+        });
+        return;
+      }
+
+      if (!Array.isArray(embedding) || embedding.length === 0) {
+        res.status(500).json({ error: "Invalid embedding generated" });
+        return;
+      }
+    }
+
+    const updatedNote = await updateContentRecord(existingNote.id, {
+      ...(title !== undefined && { title: nextTitle as string }),
+      ...(content !== undefined && { content: nextContent as string }),
+      ...(embedding && { embedding })
+    });
+
+    if (!updatedNote) {
+      res.status(404).json({ error: "Note not found" });
+      return;
+    }
+
+    let links: WikiLinkSyncResult | undefined;
+    if (content !== undefined) {
+      links = await syncContentLinks(updatedNote.id, updatedNote.userId, updatedNote.content);
+    }
+    if (title !== undefined) {
+      await resolvePendingLinks(updatedNote.userId, updatedNote.id, updatedNote.title);
+    }
+
+    res.status(200).json({
+      success: true,
+      data: updatedNote,
+      reembedded: embedding !== undefined,
+      ...(links && { links }),
+      message: "Note updated successfully"
+    });
+
+  } catch (error) {
+    console.error("Error updating note:", error);
+
+    if (error instanceof Error) {
+      if (error.name === 'PrismaClientKnownRequestError') {
+        res.status(400).json({
+          error: "Database operation failed",
+          details: process.env.NODE_ENV === 'development' ? error.message : undefined
+        });
+        return;
+      }
+
+      if (error.name === 'PrismaClientUnknownRequestError') {
+        res.status(500).json({
+          error: "Unknown database error occurred"
+        });
+        return;
+      }
+    }
+
+    res.status(500).json({
+      error: "Failed to update note",
+      details: process.env.NODE_ENV === 'development' ? error : undefined
+    });
+  }
+};
+
 // Optional: Get note by ID for verification
 export const getNoteById = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -221,6 +472,7 @@ export const getNoteById = async (req: Request, res: Response): Promise<void> =>
       where: { 
         id: id.trim(),
         type: "NOTE",
+        deletedAt: null,
         ...(userId && { userId: userId as string })
       },
       select: {
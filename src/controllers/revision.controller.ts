@@ -0,0 +1,228 @@
+import { Request, Response } from "express";
+import prisma from "../prisma.js";
+import { generateEmbedding } from "../services/embedding.service.js";
+import {
+  buildEmbeddingText,
+  updateContentRecord,
+} from "../services/content.service.js";
+import { diffLines } from "../services/revision.service.js";
+import { resolvePendingLinks, syncContentLinks } from "../services/wikiLink.service.js";
+
+// Looks up a content item and checks that it belongs to the user.
+// Sends the error response itself and returns null when the check fails.
+const findOwnedContent = async (res: Response, id: string | undefined, userId: unknown) => {
+  if (!id || id.trim().length === 0) {
+    res.status(400).json({ error: "Content ID is required" });
+    return null;
+  }
+
+  if (!userId || typeof userId !== 'string' || userId.trim().length === 0) {
+    res.status(400).json({ error: "User ID is required and must be a string" });
+    return null;
+  }
+
+  const content = await prisma.content.findFirst({
+    where: { id: id.trim(), deletedAt: null },
+    select: { id: true, userId: true, type: true, title: true, content: true, createdAt: true }
+  });
+
+  if (!content) {
+    res.status(404).json({ error: "Content not found" });
+    return null;
+  }
+
+  if (content.userId !== userId.trim()) {
+    res.status(403).json({ error: "You don't have permission to access this content" });
+    return null;
+  }
+
+  return content;
+};
+
+const parseVersion = (value: unknown): number | null => {
+  const version = parseInt(value as string);
+  return Number.isInteger(version) && version > 0 ? version : null;
+};
+
+const handleRevisionError = (res: Response, error: unknown, fallbackMessage: string) => {
+  if (error instanceof Error && error.name === 'PrismaClientKnownRequestError') {
+    res.status(400).json({
+      error: "Database operation failed",
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+    return;
+  }
+
+  res.status(500).json({
+    error: fallbackMessage,
+    details: process.env.NODE_ENV === 'development' ? error : undefined
+  });
+};
+
+export const listRevisions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const content = await findOwnedContent(res, req.params.id, req.query.userId);
+    if (!content) return;
+
+    const revisions = await prisma.contentRevision.findMany({
+      where: { contentId: content.id },
+      orderBy: { version: "desc" },
+      select: {
+        id: true,
+        version: true,
+        title: true,
+        tags: true,
+        createdAt: true
+      }
+    });
+
+    res.status(200).json({
+      success: true,
+      data: revisions,
+      count: revisions.length
+    });
+
+  } catch (error) {
+    console.error("Error fetching revisions:", error);
+    handleRevisionError(res, error, "Failed to fetch revisions");
+  }
+};
+
+export const diffRevisions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const content = await findOwnedContent(res, req.params.id, req.query.userId);
+    if (!content) return;
+
+    const fromVersion = parseVersion(req.query.from);
+    const toVersion = parseVersion(req.query.to);
+
+    if (!fromVersion || !toVersion) {
+      res.status(400).json({ error: "Both 'from' and 'to' revision versions are required" });
+      return;
+    }
+
+    const revisions = await prisma.contentRevision.findMany({
+      where: {
+        contentId: content.id,
+        version: { in: [fromVersion, toVersion] }
+      }
+    });
+
+    const from = revisions.find(revision => revision.version === fromVersion);
+    const to = revisions.find(revision => revision.version === toVersion);
+
+    if (!from || !to) {
+      res.status(404).json({ error: "Revision not found" });
+      return;
+    }
+
+    const contentDiff = diffLines(from.content, to.content);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        from: { version: from.version, createdAt: from.createdAt },
+        to: { version: to.version, createdAt: to.createdAt },
+        title: from.title === to.title
+          ? null
+          : { from: from.title, to: to.title },
+        tags: {
+          added: to.tags.filter(tag => !from.tags.includes(tag)),
+          removed: from.tags.filter(tag => !to.tags.includes(tag))
+        },
+        content: contentDiff,
+        stats: {
+          added: contentDiff.filter(line => line.op === "added").length,
+          removed: contentDiff.filter(line => line.op === "removed").length
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error("Error diffing revisions:", error);
+    handleRevisionError(res, error, "Failed to diff revisions");
+  }
+};
+
+export const restoreRevision = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const content = await findOwnedContent(res, req.params.id, req.body.userId);
+    if (!content) return;
+
+    const version = parseVersion(req.params.version);
+    if (!version) {
+      res.status(400).json({ error: "Invalid revision version" });
+      return;
+    }
+
+    const revision = await prisma.contentRevision.findUnique({
+      where: { contentId_version: { contentId: content.id, version } }
+    });
+
+    if (!revision) {
+      res.status(404).json({ error: "Revision not found" });
+      return;
+    }
+
+    let embedding: number[];
+    try {
+      embedding = await generateEmbedding(buildEmbeddingText({
+        type: content.type,
+        title: revision.title,
+        content: revision.content,
+        createdAt: content.createdAt
+      }));
+    } catch (error) {
+      console.error("Error generating embedding:", error);
+      res.status(500).json({
+        error: "Failed to process restored content",
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      });
+      return;
+    }
+
+    const restored = await updateContentRecord(content.id, {
+      title: revision.title,
+      content: revision.content,
+      tags: revision.tags,
+      metadata: revision.metadata,
+      embedding
+    });
+
+    if (!restored) {
+      res.status(404).json({ error: "Content not found" });
+      return;
+    }
+
+    if (restored.type === "NOTE") {
+      await syncContentLinks(restored.id, restored.userId, restored.content);
+      await resolvePendingLinks(restored.userId, restored.id, restored.title);
+    }
+
+    res.status(200).json({
+      success: true,
+      data: restored,
+      restoredVersion: revision.version,
+      message: "Revision restored successfully"
+    });
+
+  } catch (error) {
+    console.error("Error restoring revision:", error);
+    handleRevisionError(res, error, "Failed to restore revision");
+  }
+};
@@ -0,0 +1,510 @@
+import { Request, Response } from "express";
+import { Prisma } from "@prisma/client";
+import prisma from "../prisma.js";
+import { parseTagFilter } from "../services/content.service.js";
+import { getCollectionScope } from "../services/collection.service.js";
+import { isSearchMode, sanitizeSearchQuery, SEARCH_MODES } from "../services/search.service.js";
+import { isValidTimezone, parseSearchQuery } from "../services/searchQuery.service.js";
+import { SavedSearchFilters } from "../services/savedSearch.service.js";
+
+// Constants
+const MAX_NAME_LENGTH = 200;
+const MAX_QUERY_LENGTH = 1000;
+const MAX_SAVED_SEARCHES = 100;
+const MAX_NOTIFICATIONS_PER_PAGE = 100;
+const VALID_CONTENT_TYPES = ['NOTE', 'DOCUMENT', 'LINK'];
+
+const readUserId = (value: unknown): string | null => {
+  if (!value || typeof value !== 'string' || value.trim().length === 0) {
+    return null;
+  }
+  return value.trim();
+};
+
+const validateSavedSearchFields = (
+  name: unknown,
+  query: unknown,
+  threshold: unknown,
+  alertsEnabled: unknown,
+  requireAll: boolean
+): string | null => {
+  if (name !== undefined || requireAll) {
+    if (!name || typeof name !== 'string' || name.trim().length === 0) {
+      return "Name is required and must be a non-empty string";
+    }
+    if (name.length > MAX_NAME_LENGTH) {
+      return `Name is too long (max ${MAX_NAME_LENGTH} characters)`;
+    }
+  }
+
+  if (query !== undefined || requireAll) {
+    if (!query || typeof query !== 'string' || query.trim().length === 0) {
+      return "Search query is required and must be a non-empty string";
+    }
+    if (query.length > MAX_QUERY_LENGTH) {
+      return `Search query is too long (max ${MAX_QUERY_LENGTH} characters)`;
+    }
+  }
+
+  if (threshold !== undefined) {
+    if (typeof threshold !== 'number' || isNaN(threshold) || threshold < 0.1 || threshold > 1) {
+      return "Threshold must be a number between 0.1 and 1";
+    }
+  }
+
+  if (alertsEnabled !== undefined && typeof alertsEnabled !== 'boolean') {
+    return "alertsEnabled must be a boolean";
+  }
+
+  return null;
+};
+
+// Checks the stored search fields and keeps only the known ones. The
+// collection has to belong to the user.
+const readSavedSearchFilters = async (
+  value: unknown,
+  userId: string
+): Promise<{ filters: SavedSearchFilters | null; error?: string }> => {
+  if (value === undefined || value === null) {
+    return { filters: null };
+  }
+
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return { filters: null, error: "Filters must be an object" };
+  }
+
+  const { contentTypes, tags, tagMode, collectionId, mode, timezone } = value as Record<string, unknown>;
+  const filters: SavedSearchFilters = {};
+
+  if (contentTypes !== undefined) {
+    if (!Array.isArray(contentTypes) || contentTypes.some(type => typeof type !== 'string' || !VALID_CONTENT_TYPES.includes(type.toUpperCase()))) {
+      return { filters: null, error: `Content types must be a list of: ${VALID_CONTENT_TYPES.join(", ")}` };
+    }
+    filters.contentTypes = [...new Set(contentTypes.map((type: string) => type.toUpperCase()))];
+  }
+
+  const { filter: tagFilter, error: tagError } = parseTagFilter(tags, tagMode);
+  if (tagError) {
+    return { filters: null, error: tagError };
+  }
+  if (tagFilter) {
+    filters.tags = tagFilter.tags;
+    filters.tagMode = tagFilter.mode;
+  }
+
+  if (collectionId !== undefined) {
+    if (typeof collectionId !== 'string' || !(await getCollectionScope(userId, collectionId, false))) {
+      return { filters: null, error: "Collection not found" };
+    }
+    filters.collectionId = collectionId;
+  }
+
+  if (mode !== undefined) {
+    if (!isSearchMode(mode)) {
+      return { filters: null, error: `Search mode must be one of: ${SEARCH_MODES.join(", ")}` };
+    }
+    filters.mode = mode;
+  }
+
+  if (timezone !== undefined) {
+    if (!isValidTimezone(timezone)) {
+      return { filters: null, error: "Timezone must be a valid IANA time zone, e.g. Europe/Berlin" };
+    }
+    filters.timezone = timezone;
+  }
+
+  return { filters };
+};
+
+// Operators in the query are checked when the search is saved rather than
+// every time the alert job runs it
+const validateSavedQuery = (query: string, timezone?: string): string[] =>
+  parseSearchQuery(sanitizeSearchQuery(query), { timezone }).errors;
+
+const handleSavedSearchError = (res: Response, error: unknown, fallbackMessage: string) => {
+  if (error instanceof Error) {
+    if (error.name === 'PrismaClientKnownRequestError') {
+      res.status(400).json({
+        error: "Database operation failed",
+        details: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+      return;
+    }
+
+    if (error.name === 'PrismaClientUnknownRequestError') {
+      res.status(500).json({
+        error: "Unknown database error occurred"
+      });
+      return;
+    }
+  }
+
+  res.status(500).json({
+    error: fallbackMessage,
+    details: process.env.NODE_ENV === 'development' ? error : undefined
+  });
+};
+
+export const getSavedSearches = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const userId = readUserId(req.query.userId);
+    if (!userId) {
+      res.status(400).json({ error: "User ID is required" });
+      return;
+    }
+
+    const savedSearches = await prisma.savedSearch.findMany({
+      where: { userId },
+      orderBy: { name: "asc" },
+      include: {
+        _count: {
+          select: { notifications: { where: { readAt: null, content: { deletedAt: null } } } }
+        }
+      }
+    });
+
+    res.status(200).json({
+      success: true,
+      data: savedSearches.map(({ _count, ...savedSearch }) => ({
+        ...savedSearch,
+        unreadCount: _count.notifications
+      })),
+      count: savedSearches.length
+    });
+
+  } catch (error) {
+    console.error("Error fetching saved searches:", error);
+    handleSavedSearchError(res, error, "Failed to fetch saved searches");
+  }
+};
+
+export const getSavedSearchById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const userId = readUserId(req.query.userId);
+    if (!userId) {
+      res.status(400).json({ error: "User ID is required" });
+      return;
+    }
+
+    const savedSearch = await prisma.savedSearch.findFirst({
+      where: { id: req.params.id, userId }
+    });
+
+    if (!savedSearch) {
+      res.status(404).json({ error: "Saved search not found" });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: savedSearch
+    });
+
+  } catch (error) {
+    console.error("Error fetching saved search:", error);
+    handleSavedSearchError(res, error, "Failed to fetch saved search");
+  }
+};
+
+export const createSavedSearch = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const { name, query, filters, threshold, alertsEnabled } = req.body;
+    const userId = readUserId(req.body.userId);
+    if (!userId) {
+      res.status(400).json({ error: "User ID is required and must be a string" });
+      return;
+    }
+
+    const validationError = validateSavedSearchFields(name, query, threshold, alertsEnabled, true);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const { filters: savedFilters, error: filterError } = await readSavedSearchFilters(filters, userId);
+    if (filterError) {
+      res.status(400).json({ error: filterError });
+      return;
+    }
+
+    const queryErrors = validateSavedQuery(query, savedFilters?.timezone);
+    if (queryErrors.length > 0) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: queryErrors
+      });
+      return;
+    }
+
+    const existing = await prisma.savedSearch.count({ where: { userId } });
+    if (existing >= MAX_SAVED_SEARCHES) {
+      res.status(400).json({ error: `You can save up to ${MAX_SAVED_SEARCHES} searches` });
+      return;
+    }
+
+    const savedSearch = await prisma.savedSearch.create({
+      data: {
+        userId,
+        name: name.trim(),
+        query: sanitizeSearchQuery(query),
+        filters: savedFilters ? (savedFilters as Prisma.InputJsonObject) : Prisma.JsonNull,
+        threshold,
+        alertsEnabled
+      }
+    });
+
+    res.status(201).json({
+      success: true,
+      data: savedSearch,
+      message: "Search saved successfully"
+    });
+
+  } catch (error) {
+    console.error("Error saving search:", error);
+    handleSavedSearchError(res, error, "Failed to save search");
+  }
+};
+
+export const updateSavedSearch = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const { id } = req.params;
+    const { name, query, filters, threshold, alertsEnabled } = req.body;
+    const userId = readUserId(req.body.userId);
+    if (!userId) {
+      res.status(400).json({ error: "User ID is required and must be a string" });
+      return;
+    }
+
+    if ([name, query, filters, threshold, alertsEnabled].every(field => field === undefined)) {
+      res.status(400).json({ error: "Nothing to update. Provide a name, query, filters, threshold and/or alertsEnabled" });
+      return;
+    }
+
+    const validationError = validateSavedSearchFields(name, query, threshold, alertsEnabled, false);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const savedSearch = await prisma.savedSearch.findFirst({
+      where: { id, userId }
+    });
+
+    if (!savedSearch) {
+      res.status(404).json({ error: "Saved search not found" });
+      return;
+    }
+
+    const { filters: savedFilters, error: filterError } = await readSavedSearchFilters(filters, userId);
+    if (filterError) {
+      res.status(400).json({ error: filterError });
+      return;
+    }
+
+    // The query is checked against whichever timezone it will run in
+    const timezone = filters !== undefined
+      ? savedFilters?.timezone
+      : (savedSearch.filters as SavedSearchFilters | null)?.timezone;
+    const queryErrors = validateSavedQuery(query ?? savedSearch.query, timezone);
+    if (queryErrors.length > 0) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: queryErrors
+      });
+      return;
+    }
+
+    const updated = await prisma.savedSearch.update({
+      where: { id },
+      data: {
+        name: name?.trim(),
+        query: query !== undefined ? sanitizeSearchQuery(query) : undefined,
+        filters: filters === undefined
+          ? undefined
+          : savedFilters ? (savedFilters as Prisma.InputJsonObject) : Prisma.JsonNull,
+        threshold,
+        alertsEnabled
+      }
+    });
+
+    res.status(200).json({
+      success: true,
+      data: updated,
+      message: "Saved search updated successfully"
+    });
+
+  } catch (error) {
+    console.error("Error updating saved search:", error);
+    handleSavedSearchError(res, error, "Failed to update saved search");
+  }
+};
+
+export const deleteSavedSearch = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const { id } = req.params;
+    const userId = readUserId(req.body.userId ?? req.query.userId);
+    if (!userId) {
+      res.status(400).json({ error: "User ID is required" });
+      return;
+    }
+
+    // Notifications go with it (cascade)
+    const { count } = await prisma.savedSearch.deleteMany({
+      where: { id, userId }
+    });
+
+    if (count === 0) {
+      res.status(404).json({ error: "Saved search not found" });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Saved search deleted successfully"
+    });
+
+  } catch (error) {
+    console.error("Error deleting saved search:", error);
+    handleSavedSearchError(res, error, "Failed to delete saved search");
+  }
+};
+
+// New matches recorded by the alert job, newest first. Filter by one saved
+// search with savedSearchId, or to unread ones with unreadOnly=true.
+export const getSavedSearchNotifications = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const { savedSearchId, unreadOnly, limit = "50" } = req.query;
+    const userId = readUserId(req.query.userId);
+    if (!userId) {
+      res.status(400).json({ error: "User ID is required" });
+      return;
+    }
+
+    if (savedSearchId !== undefined && typeof savedSearchId !== 'string') {
+      res.status(400).json({ error: "savedSearchId must be a string" });
+      return;
+    }
+
+    const pageSize = Math.min(Math.max(1, parseInt(limit as string) || 50), MAX_NOTIFICATIONS_PER_PAGE);
+
+    // Matches that have since been trashed aren't worth showing
+    const where: Prisma.SavedSearchNotificationWhereInput = {
+      userId,
+      content: { deletedAt: null },
+      ...(savedSearchId && { savedSearchId }),
+      ...(unreadOnly === "true" && { readAt: null })
+    };
+
+    const [notifications, unreadCount] = await Promise.all([
+      prisma.savedSearchNotification.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        take: pageSize,
+        select: {
+          id: true,
+          score: true,
+          readAt: true,
+          createdAt: true,
+          savedSearch: {
+            select: { id: true, name: true, query: true }
+          },
+          content: {
+            select: {
+              id: true,
+              type: true,
+              title: true,
+              tags: true,
+              url: true,
+              createdAt: true
+            }
+          }
+        }
+      }),
+      prisma.savedSearchNotification.count({
+        where: { ...where, readAt: null }
+      })
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: notifications,
+      count: notifications.length,
+      unreadCount
+    });
+
+  } catch (error) {
+    console.error("Error fetching saved search notifications:", error);
+    handleSavedSearchError(res, error, "Failed to fetch notifications");
+  }
+};
+
+// Marks the given notifications as read, or all of the user's when no IDs are sent
+export const markSavedSearchNotificationsRead = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const { ids } = req.body;
+    const userId = readUserId(req.body.userId);
+    if (!userId) {
+      res.status(400).json({ error: "User ID is required and must be a string" });
+      return;
+    }
+
+    if (ids !== undefined && (!Array.isArray(ids) || ids.some(id => typeof id !== 'string'))) {
+      res.status(400).json({ error: "ids must be a list of notification IDs" });
+      return;
+    }
+
+    const { count } = await prisma.savedSearchNotification.updateMany({
+      where: {
+        userId,
+        readAt: null,
+        ...(ids && { id: { in: ids } })
+      },
+      data: { readAt: new Date() }
+    });
+
+    res.status(200).json({
+      success: true,
+      updated: count,
+      message: `${count} notification(s) marked as read`
+    });
+
+  } catch (error) {
+    console.error("Error marking notifications as read:", error);
+    handleSavedSearchError(res, error, "Failed to update notifications");
+  }
+};
@@ -1,38 +1,79 @@
 import { Request, Response } from "express";
 import { generateEmbedding } from "../services/embedding.service.js";
 import prisma from "../prisma.js";
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import * as chrono from "chrono-node";
+import { parseTagFilter, tagFilterWhere, TagMatchMode } from "../services/content.service.js";
+import { getCollectionScope } from "../services/collection.service.js";
+import {
+  countSearchFacets,
+  emptySearchFacets,
+  findContentIdsByDomain,
+  isSearchMode,
+  runSemanticSearch,
+  sanitizeSearchQuery,
+  SEARCH_MODES,
+  SearchFacets,
+  SearchMode,
+  SearchResult,
+  SemanticSearchOptions,
+} from "../services/search.service.js";
+import {
+  buildAnswerPrompt,
+  buildContextSources,
+  ContextOptions,
+  extractCitations,
+} from "../services/rag.service.js";
+import { getLlmProvider, isLlmConfigured } from "../services/llmProvider.service.js";
+import { isValidTimezone, parseSearchQuery, SearchQueryFilter } from "../services/searchQuery.service.js";
+import { savedSearchParams } from "../services/savedSearch.service.js";
+import {
+  buildSnippets,
+  extractHighlightTerms,
+  MAX_SNIPPET_LENGTH,
+  MAX_SNIPPETS_PER_RESULT,
+  SnippetOptions,
+} from "../services/snippet.service.js";
 
 // Type definitions
-interface SearchResult {
-  id: string;
-  title: string;
-  content: string;
-  createdAt: Date;
-  type: string;
-  url?: string;
-  metadata?: any;
-  weighted_similarity?: number;
-  weighted_title?: number;
-  weighted_date?: number;
-  total_score?: number;
-}
-
 interface SearchParams {
   query: string;
   userId: string;
   similarityThreshold?: number;
   useAI?: boolean;
   limit?: number;
+  mode?: SearchMode;
   contentTypes?: string[];
+  tags?: string[] | string;
+  tagMode?: TagMatchMode;
+  collectionId?: string;
+  maxSources?: number;
+  contextTokenBudget?: number;
+  snippetLength?: number;
+  snippetsPerResult?: number;
+  timezone?: string; // IANA zone for dates written in the query, defaults to UTC
+  naturalDates?: boolean | string;
+  facets?: boolean | string; // Also count matches by type, tag, month and domain
   dateRange?: {
     start?: Date;
     end?: Date;
   };
 }
 
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY as string);
+interface Retrieval {
+  sanitizedQuery: string;
+  question: string; // The query without filter operators, for the AI prompt
+  mode: SearchMode;
+  parsedQuery: {
+    text: string;
+    filters: SearchQueryFilter[];
+  };
+  highlightTerms: string[];
+  results: SearchResult[];
+  facets?: SearchFacets;
+}
+
+// Constants
+const MAX_CONTEXT_SOURCES = 20;
+const MAX_CONTEXT_TOKEN_BUDGET = 30000;
 
 // Validation helper functions
 const validateSearchInput = (query: string, userId: string) => {
@@ -55,14 +96,6 @@ const validateSearchInput = (query: string, userId: string) => {
   return errors;
 };
 
-const sanitizeSearchQuery = (query: string): string => {
-  // Remove potential SQL injection patterns and normalize
-  return query
-    .trim()
-    .replace(/[%;\\]/g, '') // Remove common SQL injection chars
-    .substring(0, 1000); // Limit length
-};
-
 // Simple title-based search function
 export const searchByTitle = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -72,7 +105,18 @@ export const searchByTitle = async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    const { query, userId, limit = 10, contentTypes } = req.body;
+    const {
+      query,
+      userId,
+      limit = 10,
+      contentTypes,
+      tags,
+      tagMode,
+      snippetLength,
+      snippetsPerResult,
+      timezone = "UTC",
+      facets = false
+    } = req.body;
 
     // Validate input
     const validationErrors = validateSearchInput(query, userId);
@@ -84,6 +128,23 @@ export const searchByTitle = async (req: Request, res: Response): Promise<void>
       return;
     }
 
+    if (!isValidTimezone(timezone)) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: ["Timezone must be a valid IANA time zone, e.g. Europe/Berlin"]
+      });
+      return;
+    }
+
+    const { filter: tagFilter, error: tagError } = parseTagFilter(tags, tagMode);
+    if (tagError) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: [tagError]
+      });
+      return;
+    }
+
     // Validate limit
     const searchLimit = Math.min(Math.max(1, parseInt(limit) || 10), 50);
 
@@ -100,54 +161,140 @@ export const searchByTitle = async (req: Request, res: Response): Promise<void>
     // Sanitize query
     const sanitizedQuery = sanitizeSearchQuery(query);
 
+    // Filter operators work here too, so a facet's token narrows a title
+    // search the same way. Dates are only read from before: and after:,
+    // since titles often contain dates of their own.
+    const parsed = parseSearchQuery(sanitizedQuery, { timezone, naturalDates: false });
+    if (parsed.errors.length > 0) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: parsed.errors
+      });
+      return;
+    }
+
+    if (parsed.contentTypes) {
+      typeFilter = typeFilter.length > 0
+        ? parsed.contentTypes.filter(type => typeFilter.some(t => t.toUpperCase() === type))
+        : parsed.contentTypes;
+    }
+
     // Build where clause
     const whereClause: any = {
       userId: userId.trim(),
-      title: {
-        contains: sanitizedQuery,
-        mode: 'insensitive' as const
-      }
+      deletedAt: null,
+      AND: []
     };
 
-    if (typeFilter.length > 0) {
+    if (parsed.text) {
+      whereClause.title = {
+        contains: parsed.text,
+        mode: 'insensitive' as const
+      };
+    }
+
+    for (const term of parsed.excludedTerms) {
+      whereClause.AND.push({ NOT: { title: { contains: term, mode: 'insensitive' as const } } });
+    }
+
+    if (typeFilter.length > 0 || parsed.contentTypes) {
       whereClause.type = { in: typeFilter };
     }
 
-    const results = await prisma.content.findMany({
-      where: whereClause,
-      select: {
-        id: true,
-        title: true,
-        content: true,
-        type: true,
-        url: true,
-        metadata: true,
-        createdAt: true,
-        updatedAt: true
-      },
-      orderBy: [
-        { createdAt: 'desc' },
-        { title: 'asc' }
-      ],
-      take: searchLimit
-    });
+    if (tagFilter) {
+      whereClause.AND.push(tagFilterWhere(tagFilter));
+    }
+
+    if (parsed.tags.length > 0) {
+      whereClause.AND.push({ tags: { hasEvery: parsed.tags } });
+    }
+
+    if (parsed.excludedTags.length > 0) {
+      whereClause.AND.push({ NOT: { tags: { hasSome: parsed.excludedTags } } });
+    }
+
+    if (parsed.dateRange) {
+      whereClause.createdAt = { gte: parsed.dateRange.start, lte: parsed.dateRange.end };
+    }
+
+    // Prisma can't match on a URL's host, so domains are resolved to IDs first
+    if (parsed.domains.length > 0) {
+      whereClause.AND.push({ id: { in: await findContentIdsByDomain(userId.trim(), parsed.domains) } });
+    }
+
+    if (parsed.excludedDomains.length > 0) {
+      whereClause.AND.push({ id: { notIn: await findContentIdsByDomain(userId.trim(), parsed.excludedDomains) } });
+    }
+
+    const includeFacets = facets === true || facets === "true";
+    const [results, facetCounts] = await Promise.all([
+      prisma.content.findMany({
+        where: whereClause,
+        select: {
+          id: true,
+          title: true,
+          content: true,
+          type: true,
+          tags: true,
+          url: true,
+          metadata: true,
+          createdAt: true,
+          updatedAt: true
+        },
+        orderBy: [
+          { createdAt: 'desc' },
+          { title: 'asc' }
+        ],
+        take: searchLimit
+      }),
+      // Counted over every matching title, not just the page returned
+      !includeFacets
+        ? undefined
+        : parsed.contentTypes && typeFilter.length === 0
+          ? emptySearchFacets()
+          : countSearchFacets({
+              userId: userId.trim(),
+              query: parsed.text,
+              threshold: 0,
+              matchTitle: true,
+              excludedTitleTerms: parsed.excludedTerms,
+              contentTypes: typeFilter,
+              tagFilter,
+              requiredTags: parsed.tags,
+              excludedTags: parsed.excludedTags,
+              domains: parsed.domains,
+              excludedDomains: parsed.excludedDomains,
+              dateRange: parsed.dateRange ?? undefined,
+              timezone
+            })
+    ]);
 
     if (results.length === 0) {
       res.status(200).json({ 
         success: true,
         results: [],
         total: 0,
-        message: "No matching content found"
+        message: "No matching content found",
+        facets: facetCounts
       });
       return;
     }
 
+    // The whole text matched the title, so it's highlighted as one phrase
+    const highlightTerms = extractHighlightTerms(parsed.text, parsed.text ? [parsed.text] : []);
+    const snippetOptions = readSnippetOptions(snippetLength, snippetsPerResult);
+
     res.status(200).json({
       success: true,
-      results: results,
+      results: results.map(result => ({
+        ...result,
+        ...buildSnippets(result, highlightTerms, snippetOptions)
+      })),
       total: results.length,
       query: sanitizedQuery,
-      searchType: "title"
+      searchType: "title",
+      parsedQuery: { text: parsed.text, filters: parsed.filters },
+      facets: facetCounts
     });
 
   } catch (error) {
@@ -170,162 +317,231 @@ export const searchByTitle = async (req: Request, res: Response): Promise<void>
   }
 };
 
-// Advanced search with AI capabilities
-export const searchWithAI = async (req: Request, res: Response): Promise<void> => {
-  try {
-    // Check authentication
-    if (!req.isAuthenticated()) {
-      res.status(401).json({ error: "Unauthorized" });
-      return;
-    }
+// Optional overrides for how much retrieved text goes into the AI prompt
+const readContextOptions = (maxSources: unknown, contextTokenBudget: unknown): ContextOptions => ({
+  maxSources: maxSources ? Math.min(Math.max(1, parseInt(String(maxSources)) || 1), MAX_CONTEXT_SOURCES) : undefined,
+  tokenBudget: contextTokenBudget ? Math.min(Math.max(500, parseInt(String(contextTokenBudget)) || 500), MAX_CONTEXT_TOKEN_BUDGET) : undefined
+});
 
-    const { 
-      query, 
-      userId, 
-      similarityThreshold = 0.3, 
-      useAI = true, 
-      limit = 5,
-      contentTypes,
-      dateRange 
-    }: SearchParams = req.body;
+// Optional overrides for the snippets returned with each result
+const readSnippetOptions = (snippetLength: unknown, snippetsPerResult: unknown): SnippetOptions => ({
+  snippetLength: snippetLength ? Math.min(Math.max(50, parseInt(String(snippetLength)) || 50), MAX_SNIPPET_LENGTH) : undefined,
+  maxSnippets: snippetsPerResult !== undefined && snippetsPerResult !== null && snippetsPerResult !== ''
+    ? Math.min(Math.max(0, parseInt(String(snippetsPerResult)) || 0), MAX_SNIPPETS_PER_RESULT)
+    : undefined
+});
 
-    // Validate input
-    const validationErrors = validateSearchInput(query, userId);
-    if (validationErrors.length > 0) {
-      res.status(400).json({ 
-        error: "Validation failed", 
-        details: validationErrors 
-      });
-      return;
+// Validates the search parameters and runs retrieval. Sends the error
+// response itself and returns null when the request can't be served.
+const retrieveForSearch = async (
+  params: SearchParams,
+  res: Response
+): Promise<Retrieval | null> => {
+  const {
+    query,
+    userId,
+    similarityThreshold = 0.3,
+    useAI = true,
+    limit = 5,
+    mode = "hybrid",
+    contentTypes,
+    tags,
+    tagMode,
+    collectionId,
+    timezone = "UTC",
+    naturalDates = true,
+    facets = false,
+    dateRange
+  } = params;
+
+  // Validate input
+  const validationErrors = validateSearchInput(query, userId);
+  if (validationErrors.length > 0) {
+    res.status(400).json({ 
+      error: "Validation failed", 
+      details: validationErrors 
+    });
+    return null;
+  }
+
+  if (!isSearchMode(mode)) {
+    res.status(400).json({
+      error: "Validation failed",
+      details: [`Search mode must be one of: ${SEARCH_MODES.join(", ")}`]
+    });
+    return null;
+  }
+
+  if (!isValidTimezone(timezone)) {
+    res.status(400).json({
+      error: "Validation failed",
+      details: ["Timezone must be a valid IANA time zone, e.g. Europe/Berlin"]
+    });
+    return null;
+  }
+
+  const { filter: tagFilter, error: tagError } = parseTagFilter(tags, tagMode);
+  if (tagError) {
+    res.status(400).json({
+      error: "Validation failed",
+      details: [tagError]
+    });
+    return null;
+  }
+
+  // Restrict the search to one collection (and the collections nested in it)
+  let collectionIds: string[] | null = null;
+  if (collectionId !== undefined) {
+    collectionIds = typeof collectionId === 'string'
+      ? await getCollectionScope(userId.trim(), collectionId)
+      : null;
+    if (!collectionIds) {
+      res.status(404).json({ error: "Collection not found" });
+      return null;
     }
+  }
 
-    // Validate similarity threshold
-    const threshold = Math.max(0.1, Math.min(1.0, parseFloat(similarityThreshold.toString()) || 0.3));
+  // Validate similarity threshold
+  const threshold = Math.max(0.1, Math.min(1.0, parseFloat(similarityThreshold.toString()) || 0.3));
 
-    // Validate limit
-    const searchLimit = Math.min(Math.max(1, parseInt(limit.toString()) || 5), 20);
+  // Validate limit
+  const searchLimit = Math.min(Math.max(1, parseInt(limit.toString()) || 5), 20);
 
-    // Validate Gemini API key if AI is requested
-    if (useAI && !process.env.GEMINI_API_KEY) {
-      res.status(500).json({ 
-        error: "AI service not configured properly" 
+  // Validate the LLM configuration if AI is requested
+  if (useAI && !isLlmConfigured()) {
+    res.status(500).json({ 
+      error: "AI service not configured properly" 
+    });
+    return null;
+  }
+
+  // Sanitize query
+  const sanitizedQuery = sanitizeSearchQuery(query);
+
+  // Pull type:, tag:, before:, after:, "phrases", -exclusions and date phrases
+  // like "last week" out of the text
+  const parsed = parseSearchQuery(sanitizedQuery, {
+    timezone,
+    naturalDates: naturalDates !== false && naturalDates !== "false"
+  });
+  if (parsed.errors.length > 0) {
+    res.status(400).json({
+      error: "Validation failed",
+      details: parsed.errors
+    });
+    return null;
+  }
+
+  const includeFacets = facets === true || facets === "true";
+
+  const retrieval = {
+    sanitizedQuery,
+    question: parsed.text || sanitizedQuery,
+    mode,
+    parsedQuery: { text: parsed.text, filters: parsed.filters },
+    highlightTerms: extractHighlightTerms(parsed.text, parsed.phrases)
+  };
+
+  // Filters in the query narrow the ones sent as fields
+  let effectiveTypes = contentTypes;
+  if (parsed.contentTypes) {
+    effectiveTypes = Array.isArray(contentTypes) && contentTypes.length > 0
+      ? parsed.contentTypes.filter(type => contentTypes.some(t => typeof t === 'string' && t.toUpperCase() === type))
+      : parsed.contentTypes;
+
+    if (effectiveTypes.length === 0) {
+      return { ...retrieval, results: [], facets: includeFacets ? emptySearchFacets() : undefined };
+    }
+  }
+
+  let effectiveRange = dateRange;
+  if (dateRange?.start || dateRange?.end || parsed.dateRange) {
+    const start = [dateRange?.start, parsed.dateRange?.start]
+      .filter(Boolean)
+      .map(date => new Date(date!));
+    const end = [dateRange?.end, parsed.dateRange?.end]
+      .filter(Boolean)
+      .map(date => new Date(date!));
+
+    if ([...start, ...end].some(date => isNaN(date.getTime()))) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: ["Date range must contain valid dates"]
       });
-      return;
+      return null;
     }
 
-    // Sanitize query
-    const sanitizedQuery = sanitizeSearchQuery(query);
+    effectiveRange = {
+      start: start.length > 0 ? new Date(Math.max(...start.map(date => date.getTime()))) : undefined,
+      end: end.length > 0 ? new Date(Math.min(...end.map(date => date.getTime()))) : undefined
+    };
+  }
 
-    let queryEmbedding: number[];
+  // Keyword search doesn't need a query vector, and a query made only of
+  // filters has nothing to embed
+  let queryEmbedding: number[] | undefined;
+  if (mode !== "keyword" && parsed.text) {
     try {
-      queryEmbedding = await generateEmbedding(sanitizedQuery);
+      queryEmbedding = await generateEmbedding(parsed.text);
     } catch (error) {
       console.error("Error generating embedding:", error);
       res.status(500).json({ 
         error: "Failed to process search query" 
       });
-      return;
+      return null;
     }
 
     // Validate embedding
     if (!Array.isArray(queryEmbedding) || queryEmbedding.length === 0) {
       res.status(500).json({ error: "Invalid search embedding generated" });
-      return;
+      return null;
     }
+  }
 
-    // Parse date from query
-    const parsedDate = chrono.parseDate(sanitizedQuery);
-    const dateCondition = parsedDate ? parsedDate.toISOString().split('T')[0] : null;
-
-    // Build the base query
-    let whereConditions = [`"userId" = $1`];
-    let paramIndex = 2;
-    const queryParams: any[] = [userId.trim()];
-
-    // Add content type filter if provided
-    if (contentTypes && Array.isArray(contentTypes)) {
-      const validContentTypes = ['NOTE', 'DOCUMENT', 'LINK'];
-      const validTypes = contentTypes.filter(type => 
-        validContentTypes.includes(type.toUpperCase())
-      );
-      if (validTypes.length > 0) {
-        const typeParams = validTypes.map(() => `$${paramIndex++}`).join(',');
-        whereConditions.push(`type IN (${typeParams})`);
-        queryParams.push(...validTypes);
-      }
-    }
+  const searchOptions: SemanticSearchOptions = {
+    userId: userId.trim(),
+    query: parsed.text,
+    keywordQuery: parsed.keywordQuery,
+    embedding: queryEmbedding,
+    mode,
+    threshold,
+    limit: searchLimit,
+    contentTypes: effectiveTypes,
+    tagFilter,
+    requiredTags: parsed.tags,
+    excludedTags: parsed.excludedTags,
+    phrases: parsed.phrases,
+    excludedTerms: parsed.excludedTerms,
+    domains: parsed.domains,
+    excludedDomains: parsed.excludedDomains,
+    collectionIds,
+    dateRange: effectiveRange
+  };
 
-    // Add date range filter if provided
-    if (dateRange?.start || dateRange?.end) {
-      if (dateRange.start && dateRange.end) {
-        whereConditions.push(`"createdAt" BETWEEN $${paramIndex} AND $${paramIndex + 1}`);
-        queryParams.push(dateRange.start.toISOString(), dateRange.end.toISOString());
-        paramIndex += 2;
-      } else if (dateRange.start) {
-        whereConditions.push(`"createdAt" >= $${paramIndex}`);
-        queryParams.push(dateRange.start.toISOString());
-        paramIndex++;
-      } else if (dateRange.end) {
-        whereConditions.push(`"createdAt" <= $${paramIndex}`);
-        queryParams.push(dateRange.end.toISOString());
-        paramIndex++;
-      }
-    }
+  // Facets cover every match, so they're counted separately from the limited results
+  const [results, facetCounts] = await Promise.all([
+    runSemanticSearch(searchOptions),
+    includeFacets ? countSearchFacets({ ...searchOptions, timezone }) : undefined
+  ]);
 
-    // Add the main search conditions
-    const embeddingParam = `$${paramIndex++}`;
-    const queryParam = `$${paramIndex++}`;
-    const thresholdParam = `$${paramIndex++}`;
-    const limitParam = `$${paramIndex++}`;
-    
-    queryParams.push(queryEmbedding, sanitizedQuery, threshold, searchLimit);
+  return { ...retrieval, results, facets: facetCounts };
+};
 
-    // Add date condition parameters if needed
-    let dateConditionSql = '';
-    if (dateCondition) {
-      const dateParam = `$${paramIndex++}`;
-      queryParams.push(dateCondition);
-      dateConditionSql = `OR "createdAt"::date = ${dateParam}::date`;
+// Advanced search with AI capabilities
+export const searchWithAI = async (req: Request, res: Response): Promise<void> => {
+  try {
+    // Check authentication
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
     }
 
-    const whereClause = whereConditions.join(' AND ');
-
-    const sqlQuery = `
-      SELECT 
-        id,
-        title, 
-        content, 
-        type,
-        url,
-        metadata,
-        "createdAt",
-        0.6 * (1 - (embedding <=> ${embeddingParam}::vector)) AS weighted_similarity,
-        0.3 * (CASE WHEN title ILIKE '%' || ${queryParam} || '%' THEN 1 ELSE 0 END) AS weighted_title,
-        0.1 * (CASE 
-          WHEN ${dateCondition ? `${queryParams[queryParams.length - 1]}` : 'NULL'}::date IS NOT NULL AND "createdAt"::date = ${dateCondition ? `${queryParams[queryParams.length - 1]}` : 'NULL'}::date 
-          THEN 1 
-          ELSE 0 
-        END) AS weighted_date,
-        0.6 * (1 - (embedding <=> ${embeddingParam}::vector)) 
-        + 0.3 * (CASE WHEN title ILIKE '%' || ${queryParam} || '%' THEN 1 ELSE 0 END)
-        + 0.1 * (CASE 
-          WHEN ${dateCondition ? `${queryParams[queryParams.length - 1]}` : 'NULL'}::date IS NOT NULL AND "createdAt"::date = ${dateCondition ? `${queryParams[queryParams.length - 1]}` : 'NULL'}::date 
-          THEN 1 
-          ELSE 0 
-        END) AS total_score
-      FROM "Content"
-      WHERE ${whereClause}
-      AND (
-        0.6 * (1 - (embedding <=> ${embeddingParam}::vector)) > ${thresholdParam} 
-        OR title ILIKE '%' || ${queryParam} || '%' 
-        OR content ILIKE '%' || ${queryParam} || '%'
-        ${dateConditionSql}
-      )
-      ORDER BY total_score DESC
-      LIMIT ${limitParam};
-    `;
+    const { userId, useAI = true, maxSources, contextTokenBudget, snippetLength, snippetsPerResult }: SearchParams = req.body;
 
-    const results: SearchResult[] = await prisma.$queryRawUnsafe(sqlQuery, ...queryParams);
+    const retrieval = await retrieveForSearch(req.body, res);
+    if (!retrieval) return;
+    const { sanitizedQuery, question, mode, parsedQuery, highlightTerms, results, facets } = retrieval;
+    const snippetOptions = readSnippetOptions(snippetLength, snippetsPerResult);
 
     if (results.length === 0) {
       res.status(200).json({ 
@@ -334,7 +550,10 @@ export const searchWithAI = async (req: Request, res: Response): Promise<void> =
         total: 0,
         message: "No relevant content found",
         query: sanitizedQuery,
-        searchType: "semantic"
+        searchType: "semantic",
+        mode,
+        parsedQuery,
+        facets
       });
       return;
     }
@@ -346,74 +565,68 @@ export const searchWithAI = async (req: Request, res: Response): Promise<void> =
         results: results.map(r => ({
           id: r.id,
           title: r.title,
-          content: r.content,
+          content: r.content ?? "",
           type: r.type,
+          tags: r.tags,
           url: r.url,
           metadata: r.metadata,
           createdAt: r.createdAt,
-          relevanceScore: r.total_score
+          relevanceScore: r.total_score,
+          matchedChunks: r.matched_chunks ?? [],
+          ...buildSnippets(r, highlightTerms, snippetOptions)
         })),
         total: results.length,
         query: sanitizedQuery,
-        searchType: "semantic"
+        searchType: "semantic",
+        mode,
+        parsedQuery,
+        facets
       });
       return;
     }
 
-    // Generate AI response if requested
+    // Generate AI response if requested, grounded in passages from the top results
     const topResult = results[0];
+    const contextSources = buildContextSources(results, readContextOptions(maxSources, contextTokenBudget));
     
-    if (!topResult.content || topResult.content.trim().length === 0) {
+    if (contextSources.length === 0) {
       res.status(200).json({
         success: true,
         results: results.map(r => ({
           id: r.id,
           title: r.title,
-          content: r.content,
+          content: r.content ?? "",
           type: r.type,
+          tags: r.tags,
           url: r.url,
           metadata: r.metadata,
           createdAt: r.createdAt,
-          relevanceScore: r.total_score
+          relevanceScore: r.total_score,
+          matchedChunks: r.matched_chunks ?? [],
+          ...buildSnippets(r, highlightTerms, snippetOptions)
         })),
         total: results.length,
         query: sanitizedQuery,
         searchType: "semantic",
+        mode,
+        parsedQuery,
+        facets,
         message: "Found results but unable to generate AI response due to insufficient content"
       });
       return;
     }
 
     try {
-      const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash" });
-      
-      // Truncate content if too long
-      const maxContentLength = 4000;
-      const truncatedContent = topResult.content.length > maxContentLength 
-        ? topResult.content.substring(0, maxContentLength) + "..." 
-        : topResult.content;
-
-      const prompt = `
-        Based on the following context, please answer the user's question clearly and concisely.
-        Only use information from the provided context. If the context doesn't contain enough information to answer the question, say so.
-        
-        Context: ${truncatedContent}
-        Question: ${sanitizedQuery}
-        
-        Answer:
-      `;
-
-      const result = await model.generateContent(prompt);
-      const aiResponse = result?.response?.candidates?.[0]?.content?.parts?.[0]?.text;
-
-      if (!aiResponse) {
-        throw new Error("No AI response generated");
-      }
+      const llm = await getLlmProvider(userId.trim());
+      const prompt = buildAnswerPrompt(question, contextSources);
+      const aiResponse = await llm.complete(prompt);
 
       res.status(200).json({
         success: true,
         query: sanitizedQuery,
         aiAnswer: aiResponse.trim(),
+        citations: extractCitations(aiResponse, contextSources),
+        sources: contextSources,
         sourceDocument: {
           id: topResult.id,
           title: topResult.title,
@@ -423,14 +636,20 @@ export const searchWithAI = async (req: Request, res: Response): Promise<void> =
         allResults: results.map(r => ({
           id: r.id,
           title: r.title,
-          content: r.content.substring(0, 200) + (r.content.length > 200 ? "..." : ""),
+          content: (r.content ?? "").substring(0, 200) + ((r.content ?? "").length > 200 ? "..." : ""),
           type: r.type,
+          tags: r.tags,
           url: r.url,
           createdAt: r.createdAt,
-          relevanceScore: r.total_score
+          relevanceScore: r.total_score,
+          matchedChunks: r.matched_chunks ?? [],
+          ...buildSnippets(r, highlightTerms, snippetOptions)
         })),
         total: results.length,
-        searchType: "ai-enhanced"
+        searchType: "ai-enhanced",
+        mode,
+        parsedQuery,
+        facets
       });
 
     } catch (aiError) {
@@ -442,16 +661,22 @@ export const searchWithAI = async (req: Request, res: Response): Promise<void> =
         results: results.map(r => ({
           id: r.id,
           title: r.title,
-          content: r.content,
+          content: r.content ?? "",
           type: r.type,
+          tags: r.tags,
           url: r.url,
           metadata: r.metadata,
           createdAt: r.createdAt,
-          relevanceScore: r.total_score
+          relevanceScore: r.total_score,
+          matchedChunks: r.matched_chunks ?? [],
+          ...buildSnippets(r, highlightTerms, snippetOptions)
         })),
         total: results.length,
         query: sanitizedQuery,
         searchType: "semantic",
+        mode,
+        parsedQuery,
+        facets,
         warning: "AI response generation failed, returning search results only"
       });
     }
@@ -483,6 +708,349 @@ export const searchWithAI = async (req: Request, res: Response): Promise<void> =
   }
 };
 
+// Runs a saved search through the searchWithAI pipeline. The saved query,
+// filters and threshold replace those fields; response options such as
+// useAI, limit, snippets and facets still come from the request body.
+export const runSavedSearch = async (req: Request, res: Response): Promise<void> => {
+  try {
+    // Check authentication
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const { userId } = req.body;
+    if (!userId || typeof userId !== 'string' || userId.trim().length === 0) {
+      res.status(400).json({ error: "User ID is required and must be a string" });
+      return;
+    }
+
+    const savedSearch = await prisma.savedSearch.findFirst({
+      where: { id: req.params.id, userId: userId.trim() }
+    });
+
+    if (!savedSearch) {
+      res.status(404).json({ error: "Saved search not found" });
+      return;
+    }
+
+    const { query, similarityThreshold, contentTypes, tags, tagMode, collectionId, mode, timezone, ...options } = req.body;
+    req.body = { ...options, ...savedSearchParams(savedSearch) };
+
+    await searchWithAI(req, res);
+
+  } catch (error) {
+    console.error("Error running saved search:", error);
+
+    if (error instanceof Error && error.name === 'PrismaClientKnownRequestError') {
+      res.status(400).json({
+        error: "Database search failed",
+        details: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+      return;
+    }
+
+    res.status(500).json({
+      error: "Failed to run saved search",
+      details: process.env.NODE_ENV === 'development' ? error : undefined
+    });
+  }
+};
+
+// Writes one Server-Sent Event
+const sendEvent = (res: Response, event: string, data: unknown) => {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+// GET takes the same parameters as the POST body, with contentTypes as a
+// comma-separated list. A dateRange field is only accepted in the POST body;
+// GET requests can use before: and after: in the query instead.
+const readStreamParams = (req: Request): SearchParams => {
+  if (req.method !== "GET") return req.body;
+
+  const { contentTypes, dateRange, ...params } = req.query as Record<string, any>;
+  return {
+    ...params,
+    contentTypes: typeof contentTypes === 'string'
+      ? contentTypes.split(',').map(type => type.trim())
+      : contentTypes
+  } as SearchParams;
+};
+
+// Streaming variant of the AI search. Events, in order:
+//   sources - the retrieved results and the numbered passages given to the model
+//   delta   - a piece of the answer text, repeated as the model produces it
+//   done    - the full answer, its citations and timing
+// An `error` event replaces the remaining events if generation fails.
+export const streamSearchWithAI = async (req: Request, res: Response): Promise<void> => {
+  const startedAt = Date.now();
+
+  try {
+    // Check authentication
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const params = readStreamParams(req);
+
+    // Validation and retrieval errors are still plain JSON responses
+    const retrieval = await retrieveForSearch({ ...params, useAI: true }, res);
+    if (!retrieval) return;
+    const { sanitizedQuery, question, mode, parsedQuery, highlightTerms, results, facets } = retrieval;
+    const snippetOptions = readSnippetOptions(params.snippetLength, params.snippetsPerResult);
+    const retrievalMs = Date.now() - startedAt;
+
+    const contextSources = buildContextSources(
+      results,
+      readContextOptions(params.maxSources, params.contextTokenBudget)
+    );
+
+    res.status(200).set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      "Connection": "keep-alive",
+      "X-Accel-Buffering": "no"
+    });
+    res.flushHeaders();
+
+    // Stop generating as soon as the client goes away
+    const abortController = new AbortController();
+    let clientGone = false;
+    res.on("close", () => {
+      if (!res.writableEnded) {
+        clientGone = true;
+        abortController.abort();
+      }
+    });
+
+    sendEvent(res, "sources", {
+      query: sanitizedQuery,
+      mode,
+      parsedQuery,
+      facets,
+      sources: contextSources,
+      results: results.map(r => ({
+        id: r.id,
+        title: r.title,
+        type: r.type,
+        tags: r.tags,
+        url: r.url,
+        createdAt: r.createdAt,
+        relevanceScore: r.total_score,
+        ...buildSnippets(r, highlightTerms, snippetOptions)
+      }))
+    });
+
+    if (contextSources.length === 0) {
+      sendEvent(res, "done", {
+        aiAnswer: null,
+        citations: [],
+        message: results.length === 0
+          ? "No relevant content found"
+          : "Found results but unable to generate AI response due to insufficient content",
+        timing: { retrievalMs, firstTokenMs: null, totalMs: Date.now() - startedAt }
+      });
+      res.end();
+      return;
+    }
+
+    let answer = "";
+    let firstTokenMs: number | null = null;
+
+    try {
+      const llm = await getLlmProvider(params.userId.trim());
+      const prompt = buildAnswerPrompt(question, contextSources);
+
+      for await (const text of llm.stream(prompt, { signal: abortController.signal })) {
+        if (clientGone) break;
+
+        if (firstTokenMs === null) firstTokenMs = Date.now() - startedAt;
+        answer += text;
+        sendEvent(res, "delta", { text });
+      }
+    } catch (aiError) {
+      if (clientGone) return;
+
+      console.error("Error streaming AI response:", aiError);
+      sendEvent(res, "error", { error: "AI response generation failed" });
+      res.end();
+      return;
+    }
+
+    if (clientGone) return;
+
+    sendEvent(res, "done", {
+      aiAnswer: answer.trim(),
+      citations: extractCitations(answer, contextSources),
+      timing: { retrievalMs, firstTokenMs, totalMs: Date.now() - startedAt }
+    });
+    res.end();
+
+  } catch (error) {
+    console.error("Error processing streaming search:", error);
+
+    // Once the stream has started, errors can only be reported as an event
+    if (res.headersSent) {
+      if (!res.writableEnded) {
+        sendEvent(res, "error", { error: "Failed to process the search" });
+        res.end();
+      }
+      return;
+    }
+
+    if (error instanceof Error) {
+      if (error.name === 'PrismaClientKnownRequestError') {
+        res.status(400).json({ 
+          error: "Database search failed",
+          details: process.env.NODE_ENV === 'development' ? error.message : undefined
+        });
+        return;
+      }
+    }
+
+    res.status(500).json({ 
+      error: "Failed to process the search",
+      details: process.env.NODE_ENV === 'development' ? error : undefined
+    });
+  }
+};
+
+// Related content based on an item's stored embedding
+export const getRelatedContent = async (req: Request, res: Response): Promise<void> => {
+  try {
+    // Check authentication
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const { id } = req.params;
+    const { userId, contentTypes, tags, tagMode, minSimilarity = "0.5", limit = "5" } = req.query;
+
+    if (!userId || typeof userId !== 'string' || userId.trim().length === 0) {
+      res.status(400).json({ error: "User ID is required and must be a string" });
+      return;
+    }
+
+    const { filter: tagFilter, error: tagError } = parseTagFilter(tags, tagMode);
+    if (tagError) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: [tagError]
+      });
+      return;
+    }
+
+    // Validate similarity threshold and limit
+    const threshold = Math.max(0, Math.min(1.0, parseFloat(minSimilarity as string) || 0.5));
+    const searchLimit = Math.min(Math.max(1, parseInt(limit as string) || 5), 20);
+
+    const source = await prisma.$queryRaw<{ id: string; userId: string; hasEmbedding: boolean }[]>`
+      SELECT id, "userId", embedding IS NOT NULL AS "hasEmbedding"
+      FROM "Content"
+      WHERE id = ${id} AND "deletedAt" IS NULL;
+    `;
+
+    if (source.length === 0) {
+      res.status(404).json({ error: "Content not found" });
+      return;
+    }
+
+    if (source[0].userId !== userId.trim()) {
+      res.status(403).json({ error: "You don't have permission to access this content" });
+      return;
+    }
+
+    if (!source[0].hasEmbedding) {
+      res.status(422).json({ error: "This item has no embedding yet, so related content can't be computed" });
+      return;
+    }
+
+    // Build the query; candidates are compared against the source row's own
+    // vector, so only vectors from the same provider and model qualify
+    const whereConditions = [
+      `candidate."userId" = $1`,
+      `candidate.id <> source.id`,
+      `candidate."deletedAt" IS NULL`,
+      `candidate.embedding IS NOT NULL`,
+      `candidate."embeddingProvider" IS NOT DISTINCT FROM source."embeddingProvider"`,
+      `candidate."embeddingModel" IS NOT DISTINCT FROM source."embeddingModel"`
+    ];
+    let paramIndex = 3;
+    const queryParams: any[] = [userId.trim(), id];
+
+    if (typeof contentTypes === 'string') {
+      const validContentTypes = ['NOTE', 'DOCUMENT', 'LINK'];
+      const validTypes = contentTypes
+        .split(',')
+        .map(type => type.trim().toUpperCase())
+        .filter(type => validContentTypes.includes(type));
+      if (validTypes.length > 0) {
+        const typeParams = validTypes.map(() => `$${paramIndex++}`).join(',');
+        whereConditions.push(`candidate.type::text IN (${typeParams})`);
+        queryParams.push(...validTypes);
+      }
+    }
+
+    if (tagFilter) {
+      const operator = tagFilter.mode === "all" ? "@>" : "&&";
+      whereConditions.push(`candidate.tags ${operator} $${paramIndex++}::text[]`);
+      queryParams.push(tagFilter.tags);
+    }
+
+    const thresholdParam = `$${paramIndex++}`;
+    const limitParam = `$${paramIndex++}`;
+    queryParams.push(threshold, searchLimit);
+
+    const sqlQuery = `
+      SELECT
+        candidate.id,
+        candidate.title,
+        candidate.content,
+        candidate.type,
+        candidate.tags,
+        candidate.url,
+        candidate.metadata,
+        candidate."createdAt",
+        1 - (candidate.embedding <=> source.embedding) AS weighted_similarity,
+        1 - (candidate.embedding <=> source.embedding) AS total_score
+      FROM "Content" candidate
+      JOIN "Content" source ON source.id = $2
+      WHERE ${whereConditions.join(' AND ')}
+      AND 1 - (candidate.embedding <=> source.embedding) >= ${thresholdParam}
+      ORDER BY candidate.embedding <=> source.embedding
+      LIMIT ${limitParam};
+    `;
+
+    const results: SearchResult[] = await prisma.$queryRawUnsafe(sqlQuery, ...queryParams);
+
+    res.status(200).json({
+      success: true,
+      sourceId: id,
+      results,
+      total: results.length,
+      searchType: "related"
+    });
+
+  } catch (error) {
+    console.error("Error fetching related content:", error);
+
+    if (error instanceof Error && error.name === 'PrismaClientKnownRequestError') {
+      res.status(400).json({
+        error: "Database search failed",
+        details: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+      return;
+    }
+
+    res.status(500).json({
+      error: "Failed to fetch related content",
+      details: process.env.NODE_ENV === 'development' ? error : undefined
+    });
+  }
+};
+
 // Health check for search services
 export const searchHealthCheck = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -510,7 +1078,7 @@ export const searchHealthCheck = async (req: Request, res: Response): Promise<vo
 
     // Test AI service
     try {
-      if (process.env.GEMINI_API_KEY) {
+      if (isLlmConfigured()) {
         checks.ai = true;
       }
     } catch (error) {
@@ -0,0 +1,158 @@
+import { Request, Response } from "express";
+import prisma from "../prisma.js";
+import {
+  getAvailableLlmProviders,
+  getDefaultLlmModel,
+  getDeploymentLlmSettings,
+  isLlmProviderName,
+} from "../services/llmProvider.service.js";
+
+// Constants
+const MAX_MODEL_LENGTH = 200;
+
+const readUserId = (value: unknown): string | null => {
+  if (!value || typeof value !== 'string' || value.trim().length === 0) {
+    return null;
+  }
+  return value.trim();
+};
+
+const handleSettingsError = (res: Response, error: unknown, fallbackMessage: string) => {
+  if (error instanceof Error && error.name === 'PrismaClientKnownRequestError') {
+    res.status(400).json({
+      error: "Database operation failed",
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+    return;
+  }
+
+  res.status(500).json({
+    error: fallbackMessage,
+    details: process.env.NODE_ENV === 'development' ? error : undefined
+  });
+};
+
+// Effective LLM settings for the user and what they can choose from
+const describeLlmSettings = (user: { llmProvider: string | null; llmModel: string | null }) => {
+  const deployment = getDeploymentLlmSettings();
+  const available = getAvailableLlmProviders();
+  const userProvider = isLlmProviderName(user.llmProvider) && available.includes(user.llmProvider)
+    ? user.llmProvider
+    : null;
+
+  return {
+    provider: userProvider ?? deployment.provider,
+    model: user.llmModel || (userProvider ? getDefaultLlmModel(userProvider) : deployment.model),
+    source: userProvider || user.llmModel ? "user" : "deployment",
+    deployment,
+    availableProviders: available
+  };
+};
+
+export const getLlmSettings = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const userId = readUserId(req.query.userId);
+    if (!userId) {
+      res.status(400).json({ error: "User ID is required" });
+      return;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { llmProvider: true, llmModel: true }
+    });
+
+    if (!user) {
+      res.status(404).json({ error: "User not found" });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: describeLlmSettings(user)
+    });
+
+  } catch (error) {
+    console.error("Error fetching LLM settings:", error);
+    handleSettingsError(res, error, "Failed to fetch LLM settings");
+  }
+};
+
+// Sets the user's provider and/or model; null resets a field to the deployment default
+export const updateLlmSettings = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const { provider, model } = req.body;
+    const userId = readUserId(req.body.userId);
+    if (!userId) {
+      res.status(400).json({ error: "User ID is required and must be a string" });
+      return;
+    }
+
+    if (provider === undefined && model === undefined) {
+      res.status(400).json({ error: "Nothing to update. Provide a provider and/or model" });
+      return;
+    }
+
+    if (provider !== undefined && provider !== null) {
+      if (!isLlmProviderName(provider)) {
+        res.status(400).json({ error: "Unknown LLM provider" });
+        return;
+      }
+
+      if (!getAvailableLlmProviders().includes(provider)) {
+        res.status(400).json({ error: `The ${provider} provider is not available on this server` });
+        return;
+      }
+    }
+
+    if (model !== undefined && model !== null) {
+      if (typeof model !== 'string' || model.trim().length === 0) {
+        res.status(400).json({ error: "Model must be a non-empty string" });
+        return;
+      }
+      if (model.length > MAX_MODEL_LENGTH) {
+        res.status(400).json({ error: `Model name is too long (max ${MAX_MODEL_LENGTH} characters)` });
+        return;
+      }
+    }
+
+    const existing = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true }
+    });
+
+    if (!existing) {
+      res.status(404).json({ error: "User not found" });
+      return;
+    }
+
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: {
+        ...(provider !== undefined && { llmProvider: provider }),
+        ...(model !== undefined && { llmModel: model?.trim() ?? null })
+      },
+      select: { llmProvider: true, llmModel: true }
+    });
+
+    res.status(200).json({
+      success: true,
+      data: describeLlmSettings(user),
+      message: "LLM settings updated successfully"
+    });
+
+  } catch (error) {
+    console.error("Error updating LLM settings:", error);
+    handleSettingsError(res, error, "Failed to update LLM settings");
+  }
+};
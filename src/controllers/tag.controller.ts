@@ -0,0 +1,248 @@
+import { Request, Response } from "express";
+import { Prisma } from "@prisma/client";
+import prisma from "../prisma.js";
+import { normalizeTags } from "../services/content.service.js";
+import { BULK_REVISION_TIMEOUT_MS, withRevisions } from "../services/revision.service.js";
+
+interface TagCount {
+  tag: string;
+  count: number;
+}
+
+// Shared error response for the tag endpoints
+const handleTagError = (res: Response, error: unknown, fallbackMessage: string) => {
+  if (error instanceof Error) {
+    if (error.name === 'PrismaClientKnownRequestError') {
+      res.status(400).json({
+        error: "Database operation failed",
+        details: process.env.NODE_ENV === 'development' ? error.message : undefined
+      });
+      return;
+    }
+
+    if (error.name === 'PrismaClientUnknownRequestError') {
+      res.status(500).json({
+        error: "Unknown database error occurred"
+      });
+      return;
+    }
+  }
+
+  res.status(500).json({
+    error: fallbackMessage,
+    details: process.env.NODE_ENV === 'development' ? error : undefined
+  });
+};
+
+const readUserId = (value: unknown): string | null => {
+  if (!value || typeof value !== 'string' || value.trim().length === 0) {
+    return null;
+  }
+  return value.trim();
+};
+
+const readSingleTag = (value: unknown): string | null => {
+  const { tags, error } = normalizeTags(typeof value === 'string' ? [value] : value);
+  if (error || tags.length !== 1) {
+    return null;
+  }
+  return tags[0];
+};
+
+// IDs of the user's content carrying any of the tags, locked until the
+// transaction ends so the rows don't change between snapshot and update
+const lockTaggedContent = async (tx: Prisma.TransactionClient, userId: string, tags: string[]): Promise<string[]> => {
+  const rows = await tx.$queryRaw<{ id: string }[]>`
+    SELECT id FROM "Content"
+    WHERE "userId" = ${userId}
+    AND tags && ${tags}::text[]
+    FOR UPDATE;
+  `;
+  return rows.map(row => row.id);
+};
+
+// Rewrites every tag in `sources` to `target` across the user's content,
+// de-duplicating so an item that had both ends up with the target only once.
+// Every changed item gets a revision.
+const replaceTags = async (userId: string, sources: string[], target: string): Promise<number> => {
+  return prisma.$transaction(async (tx) => {
+    const ids = await lockTaggedContent(tx, userId, sources);
+
+    return withRevisions(tx, ids, () => tx.$executeRaw`
+      UPDATE "Content"
+      SET
+        tags = ARRAY(
+          SELECT DISTINCT CASE WHEN tag = ANY(${sources}::text[]) THEN ${target} ELSE tag END
+          FROM unnest(tags) AS tag
+        ),
+        "updatedAt" = NOW()
+      WHERE id = ANY(${ids}::text[]);
+    `);
+  }, { timeout: BULK_REVISION_TIMEOUT_MS });
+};
+
+export const getTags = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const userId = readUserId(req.query.userId);
+    if (!userId) {
+      res.status(400).json({ error: "User ID is required" });
+      return;
+    }
+
+    const tags = await prisma.$queryRaw<TagCount[]>`
+      SELECT tag, COUNT(*)::int AS count
+      FROM "Content", unnest(tags) AS tag
+      WHERE "userId" = ${userId}
+      AND "deletedAt" IS NULL
+      GROUP BY tag
+      ORDER BY count DESC, tag ASC;
+    `;
+
+    res.status(200).json({
+      success: true,
+      data: tags,
+      count: tags.length
+    });
+
+  } catch (error) {
+    console.error("Error fetching tags:", error);
+    handleTagError(res, error, "Failed to fetch tags");
+  }
+};
+
+export const renameTag = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const userId = readUserId(req.body.userId);
+    if (!userId) {
+      res.status(400).json({ error: "User ID is required" });
+      return;
+    }
+
+    const tag = readSingleTag(req.params.tag);
+    const newName = readSingleTag(req.body.newName);
+
+    if (!tag || !newName) {
+      res.status(400).json({ error: "Both the current tag and a valid new name are required" });
+      return;
+    }
+
+    if (tag === newName) {
+      res.status(400).json({ error: "New tag name must be different from the current one" });
+      return;
+    }
+
+    const updatedCount = await replaceTags(userId, [tag], newName);
+
+    if (updatedCount === 0) {
+      res.status(404).json({ error: "Tag not found" });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Tag renamed successfully",
+      data: { from: tag, to: newName, updatedCount }
+    });
+
+  } catch (error) {
+    console.error("Error renaming tag:", error);
+    handleTagError(res, error, "Failed to rename tag");
+  }
+};
+
+export const mergeTags = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const userId = readUserId(req.body.userId);
+    if (!userId) {
+      res.status(400).json({ error: "User ID is required" });
+      return;
+    }
+
+    const sources = normalizeTags(req.body.sources);
+    const target = readSingleTag(req.body.target);
+
+    if (sources.error || sources.tags.length === 0 || !target) {
+      res.status(400).json({ error: "At least one source tag and a target tag are required" });
+      return;
+    }
+
+    const sourceTags = sources.tags.filter(tag => tag !== target);
+    if (sourceTags.length === 0) {
+      res.status(400).json({ error: "Source tags must differ from the target tag" });
+      return;
+    }
+
+    const updatedCount = await replaceTags(userId, sourceTags, target);
+
+    res.status(200).json({
+      success: true,
+      message: "Tags merged successfully",
+      data: { sources: sourceTags, target, updatedCount }
+    });
+
+  } catch (error) {
+    console.error("Error merging tags:", error);
+    handleTagError(res, error, "Failed to merge tags");
+  }
+};
+
+export const deleteTag = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const userId = readUserId(req.body.userId ?? req.query.userId);
+    if (!userId) {
+      res.status(400).json({ error: "User ID is required" });
+      return;
+    }
+
+    const tag = readSingleTag(req.params.tag);
+    if (!tag) {
+      res.status(400).json({ error: "A valid tag is required" });
+      return;
+    }
+
+    const updatedCount = await prisma.$transaction(async (tx) => {
+      const ids = await lockTaggedContent(tx, userId, [tag]);
+
+      return withRevisions(tx, ids, () => tx.$executeRaw`
+        UPDATE "Content"
+        SET tags = array_remove(tags, ${tag}), "updatedAt" = NOW()
+        WHERE id = ANY(${ids}::text[]);
+      `);
+    }, { timeout: BULK_REVISION_TIMEOUT_MS });
+
+    if (updatedCount === 0) {
+      res.status(404).json({ error: "Tag not found" });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Tag removed successfully",
+      data: { tag, updatedCount }
+    });
+
+  } catch (error) {
+    console.error("Error removing tag:", error);
+    handleTagError(res, error, "Failed to remove tag");
+  }
+};
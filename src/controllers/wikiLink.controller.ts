@@ -0,0 +1,121 @@
+import { Request, Response } from "express";
+import prisma from "../prisma.js";
+
+// Looks up a content item and checks that it belongs to the user.
+// Sends the error response itself and returns null when the check fails.
+const findOwnedContent = async (res: Response, id: string, userId: unknown) => {
+  if (!userId || typeof userId !== 'string' || userId.trim().length === 0) {
+    res.status(400).json({ error: "User ID is required" });
+    return null;
+  }
+
+  const content = await prisma.content.findFirst({
+    where: { id, deletedAt: null },
+    select: { id: true, userId: true }
+  });
+
+  if (!content) {
+    res.status(404).json({ error: "Content not found" });
+    return null;
+  }
+
+  if (content.userId !== userId.trim()) {
+    res.status(403).json({ error: "You don't have permission to access this content" });
+    return null;
+  }
+
+  return content;
+};
+
+const linkedContentSelect = {
+  id: true,
+  type: true,
+  title: true,
+  tags: true,
+  createdAt: true,
+  deletedAt: true,
+} as const;
+
+export const getBacklinks = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const content = await findOwnedContent(res, req.params.id, req.query.userId);
+    if (!content) return;
+
+    const links = await prisma.contentLink.findMany({
+      where: {
+        targetId: content.id,
+        source: { deletedAt: null }
+      },
+      orderBy: { createdAt: "desc" },
+      select: {
+        reference: true,
+        source: { select: linkedContentSelect }
+      }
+    });
+
+    res.status(200).json({
+      success: true,
+      data: links.map(({ reference, source }) => {
+        const { deletedAt, ...rest } = source;
+        return { ...rest, reference };
+      }),
+      count: links.length
+    });
+
+  } catch (error) {
+    console.error("Error fetching backlinks:", error);
+    res.status(500).json({
+      error: "Failed to fetch backlinks",
+      details: process.env.NODE_ENV === 'development' ? error : undefined
+    });
+  }
+};
+
+export const getOutgoingLinks = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const content = await findOwnedContent(res, req.params.id, req.query.userId);
+    if (!content) return;
+
+    const links = await prisma.contentLink.findMany({
+      where: { sourceId: content.id },
+      orderBy: { reference: "asc" },
+      select: {
+        reference: true,
+        target: { select: linkedContentSelect }
+      }
+    });
+
+    // A link to an item in the trash counts as unresolved until it is restored
+    const resolved = links.filter(link => link.target && !link.target.deletedAt);
+    const unresolved = links.filter(link => !link.target || link.target.deletedAt);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        resolved: resolved.map(({ reference, target }) => {
+          const { deletedAt, ...rest } = target!;
+          return { ...rest, reference };
+        }),
+        unresolved: unresolved.map(link => link.reference)
+      },
+      count: links.length
+    });
+
+  } catch (error) {
+    console.error("Error fetching outgoing links:", error);
+    res.status(500).json({
+      error: "Failed to fetch outgoing links",
+      details: process.env.NODE_ENV === 'development' ? error : undefined
+    });
+  }
+};
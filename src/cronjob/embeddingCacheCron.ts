@@ -0,0 +1,16 @@
+import { Cron } from "croner";
+import { pruneEmbeddingCache } from "../services/embeddingCache.service.js";
+
+// Keeps the embedding cache within its TTL and row limit
+const pruneCache = async () => {
+  try {
+    const count = await pruneEmbeddingCache();
+    if (count > 0) {
+      console.log(`Removed ${count} embedding cache entries`);
+    }
+  } catch (error) {
+    console.error("Error pruning embedding cache:", error);
+  }
+};
+
+new Cron("45 3 * * *", pruneCache);
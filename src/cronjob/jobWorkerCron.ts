@@ -0,0 +1,21 @@
+import { Cron } from "croner";
+import "../services/ingestion.service.js";
+import { purgeFinishedJobs, runPendingJobs } from "../services/jobQueue.service.js";
+
+// Polls the job queue on a long-lived server. Enqueueing also starts a drain
+// right away, so this mostly picks up retries and jobs left behind by a
+// restart. Serverless deployments get GET /api/v1/jobs/run from Vercel Cron.
+new Cron("*/15 * * * * *", { protect: true }, runPendingJobs);
+
+const purgeOldJobs = async () => {
+  try {
+    const count = await purgeFinishedJobs();
+    if (count > 0) {
+      console.log(`Removed ${count} finished jobs`);
+    }
+  } catch (error) {
+    console.error("Error removing finished jobs:", error);
+  }
+};
+
+new Cron("30 3 * * *", purgeOldJobs);
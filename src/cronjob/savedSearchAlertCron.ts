@@ -0,0 +1,16 @@
+import { Cron } from "croner";
+import { checkSavedSearchAlerts } from "../services/savedSearch.service.js";
+
+// Records notifications for content that newly matches a saved search
+const checkAlerts = async () => {
+  try {
+    const { checked, notified, failed } = await checkSavedSearchAlerts();
+    if (notified > 0 || failed > 0) {
+      console.log(`Checked ${checked} saved searches: ${notified} new matches, ${failed} failed`);
+    }
+  } catch (error) {
+    console.error("Error checking saved searches:", error);
+  }
+};
+
+new Cron("0 * * * *", { protect: true }, checkAlerts);
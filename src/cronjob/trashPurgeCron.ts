@@ -0,0 +1,58 @@
+import prisma from "../prisma.js";
+import { Cron } from "croner";
+import { TRASH_RETENTION_DAYS } from "../services/content.service.js";
+import { deleteFromTebiStorage } from "../services/tebiStorage.service.js";
+
+const BATCH_SIZE = 100;
+
+// Permanently deletes content that has been in the trash longer than the
+// retention period, along with any file it stored in Tebi
+const purgeExpiredTrash = async () => {
+  try {
+    const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    let purgedCount = 0;
+    let removedFiles = 0;
+
+    while (true) {
+      const expired = await prisma.content.findMany({
+        where: { deletedAt: { lt: cutoff } },
+        select: { id: true, userId: true, type: true, title: true, url: true },
+        take: BATCH_SIZE,
+      });
+
+      if (expired.length === 0) break;
+
+      for (const item of expired) {
+        if (item.type === "DOCUMENT" && item.url) {
+          try {
+            if (await deleteFromTebiStorage(item.url)) removedFiles++;
+          } catch (error) {
+            // Keep going: an orphaned object is better than a stuck purge
+            console.error(`Error removing stored file for content ${item.id}:`, error);
+          }
+        }
+      }
+
+      const { count } = await prisma.content.deleteMany({
+        where: { id: { in: expired.map((item) => item.id) } },
+      });
+      purgedCount += count;
+
+      for (const item of expired) {
+        console.log(
+          `Purged ${item.type} ${item.id} ("${item.title ?? "untitled"}") for user ${item.userId}`
+        );
+      }
+    }
+
+    if (purgedCount > 0) {
+      console.log(
+        `Trash purge finished: ${purgedCount} items and ${removedFiles} stored files removed`
+      );
+    }
+  } catch (error) {
+    console.error("Error purging trash:", error);
+  }
+};
+
+new Cron("0 3 * * *", purgeExpiredTrash);
@@ -0,0 +1,24 @@
+import { Request, Response, NextFunction } from "express";
+
+// Comma-separated emails of the accounts allowed to use /api/v1/admin
+const adminEmails = () =>
+  (process.env.ADMIN_EMAILS || "")
+    .split(",")
+    .map(email => email.trim().toLowerCase())
+    .filter(email => email.length > 0);
+
+export const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.isAuthenticated() || !req.user) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  // Passport puts the full User row on the request
+  const email = (req.user as { email?: string }).email?.toLowerCase();
+  if (!email || !adminEmails().includes(email)) {
+    res.status(403).json({ error: "Forbidden" });
+    return;
+  }
+
+  next();
+};
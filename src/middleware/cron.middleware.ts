@@ -0,0 +1,21 @@
+import { Request, Response, NextFunction } from "express";
+import { timingSafeEqual } from "crypto";
+
+// Vercel Cron calls its paths with "Authorization: Bearer <CRON_SECRET>".
+// Without a configured secret the cron routes stay closed.
+export const requireCronSecret = (req: Request, res: Response, next: NextFunction) => {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    res.status(503).json({ error: "Cron routes are not configured" });
+    return;
+  }
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(req.headers.authorization ?? "");
+  if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  next();
+};
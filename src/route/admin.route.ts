@@ -0,0 +1,13 @@
+import express from "express"
+import { requireAdmin } from "../middleware/admin.middleware.js";
+import { cancelReembed, getEmbeddingStatus, startReembed } from "../controllers/admin.controller.js";
+
+const router = express.Router();
+
+router.use(requireAdmin)
+
+router.get("/embeddings", getEmbeddingStatus)
+router.post("/embeddings/reembed", startReembed)
+router.post("/embeddings/reembed/:id/cancel", cancelReembed)
+
+export default router;
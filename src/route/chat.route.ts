@@ -0,0 +1,20 @@
+import express from "express"
+import {
+  createConversation,
+  deleteConversation,
+  getConversationById,
+  getConversations,
+  postMessage,
+  renameConversation,
+} from "../controllers/chat.controller.js";
+
+const router = express.Router();
+
+router.get("/", getConversations)
+router.post("/", createConversation)
+router.get("/:conversationId", getConversationById)
+router.patch("/:conversationId", renameConversation)
+router.delete("/:conversationId", deleteConversation)
+router.post("/:conversationId/messages", postMessage)
+
+export default router;
@@ -0,0 +1,22 @@
+import express from "express"
+import {
+  addCollectionItems,
+  createCollection,
+  deleteCollection,
+  getCollectionById,
+  getCollections,
+  removeCollectionItem,
+  updateCollection,
+} from "../controllers/collection.controller.js";
+
+const router = express.Router();
+
+router.get("/", getCollections)
+router.post("/", createCollection)
+router.get("/:id", getCollectionById)
+router.patch("/:id", updateCollection)
+router.delete("/:id", deleteCollection)
+router.post("/:id/items", addCollectionItems)
+router.delete("/:id/items/:contentId", removeCollectionItem)
+
+export default router;
@@ -1,9 +1,25 @@
 import express from "express"
-import { deleteContent, getAllContent } from "../controllers/content.controller.js";
+import { deleteContent, getAllContent, getTrash, restoreContent, updateContent } from "../controllers/content.controller.js";
+import { bulkContentAction } from "../controllers/bulk.controller.js";
+import { getBacklinks, getOutgoingLinks } from "../controllers/wikiLink.controller.js";
+import { getRelatedContent } from "../controllers/search.controller.js";
+import { diffRevisions, listRevisions, restoreRevision } from "../controllers/revision.controller.js";
 
 const router = express.Router();
 
 router.get("/", getAllContent)
+router.get("/trash", getTrash)
+router.post("/bulk", bulkContentAction)
+router.patch("/:id", updateContent)
 router.delete("/:id", deleteContent)
+router.post("/:id/restore", restoreContent)
 
-export default router;
\ No newline at end of file
+router.get("/:id/revisions", listRevisions)
+router.get("/:id/revisions/diff", diffRevisions)
+router.post("/:id/revisions/:version/restore", restoreRevision)
+
+router.get("/:id/backlinks", getBacklinks)
+router.get("/:id/links", getOutgoingLinks)
+router.get("/:id/related", getRelatedContent)
+
+export default router;
@@ -0,0 +1,12 @@
+import express from "express"
+import { requireCronSecret } from "../middleware/cron.middleware.js";
+import { getJobById, retryFailedJob, runQueuedJobs } from "../controllers/job.controller.js";
+
+const router = express.Router();
+
+// Driven by Vercel Cron, see vercel.json
+router.get("/run", requireCronSecret, runQueuedJobs)
+router.get("/:id", getJobById)
+router.post("/:id/retry", retryFailedJob)
+
+export default router;
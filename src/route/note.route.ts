@@ -1,8 +1,9 @@
 import express from "express";
-import { createNote} from "../controllers/note.controller.js";
+import { createNote, updateNote } from "../controllers/note.controller.js";
 
 const router = express.Router();
 
 router.post("/", createNote);
+router.patch("/:id", updateNote);
 
 export default router;
@@ -0,0 +1,24 @@
+import express from "express"
+import {
+  createSavedSearch,
+  deleteSavedSearch,
+  getSavedSearchById,
+  getSavedSearches,
+  getSavedSearchNotifications,
+  markSavedSearchNotificationsRead,
+  updateSavedSearch,
+} from "../controllers/savedSearch.controller.js";
+import { runSavedSearch } from "../controllers/search.controller.js";
+
+const router = express.Router();
+
+router.get("/", getSavedSearches)
+router.post("/", createSavedSearch)
+router.get("/notifications", getSavedSearchNotifications)
+router.post("/notifications/read", markSavedSearchNotificationsRead)
+router.get("/:id", getSavedSearchById)
+router.patch("/:id", updateSavedSearch)
+router.delete("/:id", deleteSavedSearch)
+router.post("/:id/run", runSavedSearch)
+
+export default router;
@@ -1,9 +1,11 @@
 import express from "express"
-import { searchByTitle, searchWithAI } from "../controllers/search.controller.js";
+import { searchByTitle, searchWithAI, streamSearchWithAI } from "../controllers/search.controller.js";
 
 const router = express.Router();
 
 router.post("/ai", searchWithAI)
+router.get("/ai/stream", streamSearchWithAI)
+router.post("/ai/stream", streamSearchWithAI)
 router.post("/title", searchByTitle)
 
 
@@ -0,0 +1,9 @@
+import express from "express"
+import { getLlmSettings, updateLlmSettings } from "../controllers/settings.controller.js";
+
+const router = express.Router();
+
+router.get("/llm", getLlmSettings)
+router.patch("/llm", updateLlmSettings)
+
+export default router;
@@ -0,0 +1,11 @@
+import express from "express"
+import { deleteTag, getTags, mergeTags, renameTag } from "../controllers/tag.controller.js";
+
+const router = express.Router();
+
+router.get("/", getTags)
+router.post("/merge", mergeTags)
+router.patch("/:tag", renameTag)
+router.delete("/:tag", deleteTag)
+
+export default router;
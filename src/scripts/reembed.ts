@@ -0,0 +1,103 @@
+import "dotenv/config";
+import { EmbeddingBackfill } from "@prisma/client";
+import prisma from "../prisma.js";
+import { getEmbeddingSource } from "../services/embeddingProvider.service.js";
+import {
+  BackfillInProgressError,
+  cancelBackfill,
+  countStaleEmbeddings,
+  DEFAULT_BATCH_SIZE,
+  DEFAULT_DELAY_MS,
+  runBackfill,
+  startBackfill,
+} from "../services/reembed.service.js";
+
+// Re-embeds content and chunks whose vectors are missing or were made by a
+// different provider/model than the one configured now.
+//
+//   npm run reembed -- [--batch-size=50] [--delay=1000] [--dry-run] [--restart]
+//
+// An interrupted run resumes from its last saved batch; --restart starts over.
+
+const USAGE = "Usage: npm run reembed -- [--batch-size=<n>] [--delay=<ms>] [--dry-run] [--restart]";
+
+const readNumberFlag = (args: string[], name: string, fallback: number, min: number): number => {
+  const arg = args.find(a => a.startsWith(`--${name}=`));
+  if (!arg) return fallback;
+
+  const value = parseInt(arg.split("=")[1]);
+  if (isNaN(value) || value < min) {
+    console.error(`--${name} must be a number of at least ${min}`);
+    console.error(USAGE);
+    process.exit(1);
+  }
+  return value;
+};
+
+const main = async () => {
+  const args = process.argv.slice(2);
+
+  if (args.includes("--help")) {
+    console.log(USAGE);
+    return;
+  }
+
+  const batchSize = readNumberFlag(args, "batch-size", DEFAULT_BATCH_SIZE, 1);
+  const delayMs = readNumberFlag(args, "delay", DEFAULT_DELAY_MS, 0);
+  const { provider, model } = getEmbeddingSource();
+
+  const stale = await countStaleEmbeddings();
+  console.log(`Embedding model: ${provider}/${model}`);
+  console.log(`Stale embeddings: ${stale.content} content rows, ${stale.chunks} chunks`);
+
+  if (args.includes("--dry-run") || stale.total === 0) {
+    return;
+  }
+
+  let run: EmbeddingBackfill;
+  try {
+    run = await startBackfill(args.includes("--restart"));
+  } catch (error) {
+    if (error instanceof BackfillInProgressError) {
+      console.error(`${error.message} (run ${error.run.id}, ${error.run.processed}/${error.run.total} done)`);
+      process.exitCode = 1;
+      return;
+    }
+    throw error;
+  }
+
+  console.log(`Run ${run.id}: ${run.processed}/${run.total} done so far, batches of ${batchSize} every ${delayMs}ms`);
+
+  // Ctrl+C stops after the current batch; the run can be resumed later
+  let stopping = false;
+  process.on("SIGINT", () => {
+    if (stopping) process.exit(130);
+    stopping = true;
+    console.log("\nStopping after the current batch...");
+    void cancelBackfill(run.id);
+  });
+
+  const finished = await runBackfill(run, {
+    batchSize,
+    delayMs,
+    onProgress: (progress) => {
+      const phase = progress.phase === "CONTENT" ? "content" : "chunks";
+      console.log(`[${phase}] ${progress.processed}/${progress.total} re-embedded, ${progress.skipped} skipped, ${progress.failed} failed`);
+    }
+  });
+
+  console.log(`Run ${finished.id} ${finished.status.toLowerCase()}`);
+  if (finished.lastError) {
+    console.log(`Last error: ${finished.lastError}`);
+  }
+  if (finished.status === "FAILED") {
+    process.exitCode = 1;
+  }
+};
+
+main()
+  .catch((error) => {
+    console.error("Re-embedding failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
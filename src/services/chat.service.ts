@@ -0,0 +1,89 @@
+import prisma from "../prisma.js";
+import { ContextSource } from "./rag.service.js";
+import { LlmProvider } from "./llmProvider.service.js";
+
+// Type definitions
+export interface ChatTurn {
+  role: "USER" | "ASSISTANT";
+  content: string;
+  sources?: ContextSource[] | null;
+}
+
+// Constants
+const HISTORY_TURNS = 10;
+const MAX_TURN_CHARS = 1500;
+const MAX_TITLE_LENGTH = 80;
+
+// Most recent turns of a conversation, oldest first
+export const loadChatHistory = async (conversationId: string): Promise<ChatTurn[]> => {
+  const messages = await prisma.message.findMany({
+    where: { conversationId },
+    orderBy: { createdAt: "desc" },
+    take: HISTORY_TURNS,
+    select: { role: true, content: true, sources: true }
+  });
+
+  return messages.reverse().map(message => ({
+    role: message.role,
+    content: message.content,
+    sources: message.sources as ContextSource[] | null
+  }));
+};
+
+// Plain-text transcript for prompts. Assistant turns list the sources they
+// cited so follow-ups like "the second one" can be resolved.
+export const formatChatHistory = (history: ChatTurn[]): string =>
+  history
+    .map(turn => {
+      const content = turn.content.length > MAX_TURN_CHARS
+        ? turn.content.substring(0, MAX_TURN_CHARS) + "..."
+        : turn.content;
+
+      if (turn.role === "USER") return `User: ${content}`;
+
+      const sources = (turn.sources ?? [])
+        .map(source => `  [${source.n}] ${source.title || "Untitled"} (${source.type.toLowerCase()})`)
+        .join("\n");
+      return sources ? `Assistant: ${content}\n  Sources:\n${sources}` : `Assistant: ${content}`;
+    })
+    .join("\n");
+
+// Turns a follow-up into a query that can be searched without the chat.
+// Falls back to the message as written when there's no history or the model
+// doesn't come back with something usable.
+export const rewriteFollowUpQuery = async (
+  llm: LlmProvider,
+  history: ChatTurn[],
+  message: string
+): Promise<string> => {
+  if (history.length === 0) return message;
+
+  const prompt = `
+Rewrite the user's latest message as a single standalone search query for their personal notes, documents and links.
+Resolve pronouns and references such as "it", "that" or "the second one" using the conversation.
+Reply with the query only, without quotes or explanation.
+
+Conversation:
+${formatChatHistory(history)}
+
+Latest message: ${message}
+
+Standalone query:
+`.trim();
+
+  try {
+    const rewritten = (await llm.complete(prompt)).trim();
+
+    if (!rewritten || rewritten.length > 1000) return message;
+    return rewritten.replace(/^["']|["']$/g, "");
+  } catch (error) {
+    console.error("Error rewriting follow-up query:", error);
+    return message;
+  }
+};
+
+// Default conversation title, taken from its first message
+export const titleFromMessage = (message: string): string => {
+  const title = message.trim().replace(/\s+/g, " ");
+  return title.length > MAX_TITLE_LENGTH ? title.substring(0, MAX_TITLE_LENGTH - 3) + "..." : title;
+};
@@ -0,0 +1,133 @@
+import prisma from "../prisma.js";
+import { generateEmbeddingsBatch } from "./embedding.service.js";
+import { getEmbeddingSource } from "./embeddingProvider.service.js";
+
+// Type definitions
+export interface TextChunk {
+  chunkIndex: number;
+  text: string;
+  startOffset: number;
+  endOffset: number;
+  pageNumber: number | null;
+}
+
+export interface ChunkingOptions {
+  chunkSize?: number;
+  overlap?: number;
+  maxChunks?: number;
+}
+
+// Constants
+// Chunks stay well under the embedding service's MAX_BYTES so none get truncated
+const CHUNK_SIZE = 1500;
+const CHUNK_OVERLAP = 200;
+const MAX_CHUNKS = 400;
+const MIN_CHUNK_LENGTH = 20;
+
+// Page that contains the given offset, from ascending page start offsets
+const pageAt = (pageStarts: number[], offset: number): number | null => {
+  if (pageStarts.length === 0) return null;
+
+  let page = 1;
+  for (let i = 0; i < pageStarts.length; i++) {
+    if (pageStarts[i] <= offset) page = i + 1;
+    else break;
+  }
+  return page;
+};
+
+// Moves a chunk end back to the nearest sentence or word boundary, as long as
+// that doesn't shrink the chunk by more than a fifth
+const findBreakPoint = (text: string, start: number, end: number): number => {
+  if (end >= text.length) return text.length;
+
+  const minEnd = start + Math.floor((end - start) * 0.8);
+  const window = text.slice(minEnd, end);
+
+  const sentenceEnd = Math.max(
+    window.lastIndexOf(". "),
+    window.lastIndexOf("! "),
+    window.lastIndexOf("? ")
+  );
+  if (sentenceEnd !== -1) return minEnd + sentenceEnd + 1;
+
+  const wordEnd = window.lastIndexOf(" ");
+  if (wordEnd !== -1) return minEnd + wordEnd;
+
+  return end;
+};
+
+// Splits text into overlapping chunks with character offsets and, when page
+// start offsets are known, the page each chunk begins on
+export const splitIntoChunks = (
+  text: string,
+  pageStarts: number[] = [],
+  options: ChunkingOptions = {}
+): TextChunk[] => {
+  const {
+    chunkSize = CHUNK_SIZE,
+    overlap = CHUNK_OVERLAP,
+    maxChunks = MAX_CHUNKS
+  } = options;
+
+  const chunks: TextChunk[] = [];
+  let start = 0;
+
+  while (start < text.length && chunks.length < maxChunks) {
+    const end = findBreakPoint(text, start, Math.min(start + chunkSize, text.length));
+    const raw = text.slice(start, end);
+    const chunkText = raw.trim();
+
+    if (chunkText.length >= MIN_CHUNK_LENGTH) {
+      // Offsets point at the trimmed text, so text === content.slice(startOffset, endOffset)
+      const chunkStart = start + (raw.length - raw.trimStart().length);
+      chunks.push({
+        chunkIndex: chunks.length,
+        text: chunkText,
+        startOffset: chunkStart,
+        endOffset: chunkStart + chunkText.length,
+        pageNumber: pageAt(pageStarts, chunkStart)
+      });
+    }
+
+    if (end >= text.length) break;
+
+    // Step back by the overlap, then forward to the next word start
+    let next = Math.max(end - overlap, start + 1);
+    const nextSpace = text.indexOf(" ", next);
+    if (nextSpace !== -1 && nextSpace < end) next = nextSpace + 1;
+    start = next;
+  }
+
+  return chunks;
+};
+
+// Embeds the chunks and replaces any chunks already stored for the item
+export const storeContentChunks = async (contentId: string, chunks: TextChunk[]): Promise<number> => {
+  if (chunks.length === 0) return 0;
+
+  const embeddings = await generateEmbeddingsBatch(chunks.map(chunk => chunk.text));
+  const { provider, model } = getEmbeddingSource();
+
+  await prisma.$transaction([
+    prisma.contentChunk.deleteMany({ where: { contentId } }),
+    ...chunks.map((chunk, i) => prisma.$executeRaw`
+      INSERT INTO "ContentChunk" (id, "contentId", "chunkIndex", "text", "startOffset", "endOffset", "pageNumber", embedding, "embeddingProvider", "embeddingModel", "createdAt")
+      VALUES (
+        gen_random_uuid(),
+        ${contentId},
+        ${chunk.chunkIndex},
+        ${chunk.text},
+        ${chunk.startOffset},
+        ${chunk.endOffset},
+        ${chunk.pageNumber},
+        ${embeddings[i]}::vector,
+        ${provider},
+        ${model},
+        NOW()
+      );
+    `)
+  ]);
+
+  return chunks.length;
+};
@@ -0,0 +1,51 @@
+import { Prisma } from "@prisma/client";
+import prisma from "../prisma.js";
+
+// Returns the ids of a user's collection and every collection nested below it,
+// or null when the collection doesn't exist or belongs to someone else
+export const getCollectionScope = async (
+  userId: string,
+  collectionId: string,
+  includeNested: boolean = true
+): Promise<string[] | null> => {
+  if (!includeNested) {
+    const collection = await prisma.collection.findFirst({
+      where: { id: collectionId, userId },
+      select: { id: true }
+    });
+    return collection ? [collection.id] : null;
+  }
+
+  const rows = await prisma.$queryRaw<{ id: string }[]>`
+    WITH RECURSIVE tree AS (
+      SELECT id FROM "Collection"
+      WHERE id = ${collectionId} AND "userId" = ${userId}
+      UNION
+      SELECT child.id FROM "Collection" child
+      JOIN tree ON child."parentId" = tree.id
+    )
+    SELECT id FROM tree;
+  `;
+
+  return rows.length > 0 ? rows.map(row => row.id) : null;
+};
+
+// Prisma where fragment limiting content to the given collections
+export const collectionFilterWhere = (collectionIds: string[]) => ({
+  collections: { some: { collectionId: { in: collectionIds } } }
+});
+
+// Replaces all collection memberships of the given items with a single collection
+export const moveContentToCollection = async (
+  tx: Prisma.TransactionClient,
+  contentIds: string[],
+  collectionId: string
+) => {
+  await tx.collectionItem.deleteMany({
+    where: { contentId: { in: contentIds } }
+  });
+  await tx.collectionItem.createMany({
+    data: contentIds.map(contentId => ({ collectionId, contentId })),
+    skipDuplicates: true
+  });
+};
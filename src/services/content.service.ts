@@ -0,0 +1,216 @@
+import { Prisma } from "@prisma/client";
+import prisma from "../prisma.js";
+import { ensureBaselineRevision, snapshotContent } from "./revision.service.js";
+import { getEmbeddingSource } from "./embeddingProvider.service.js";
+
+// Type definitions
+export interface ContentRecord {
+  id: string;
+  userId: string;
+  type: string;
+  title: string | null;
+  content: string | null;
+  tags: string[];
+  metadata: any;
+  url: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ContentChanges {
+  title?: string | null;
+  content?: string | null;
+  tags?: string[];
+  metadata?: Prisma.JsonValue;
+  embedding?: number[];
+}
+
+export type TagMatchMode = "any" | "all";
+
+export interface TagFilter {
+  tags: string[];
+  mode: TagMatchMode;
+}
+
+interface EmbeddableContent {
+  type: string;
+  title: string | null;
+  content: string | null;
+  createdAt: Date;
+}
+
+// Constants
+// Fields returned for items that were just queued for background ingestion
+export const PENDING_CONTENT_FIELDS = {
+  id: true,
+  type: true,
+  title: true,
+  tags: true,
+  url: true,
+  status: true,
+  userId: true,
+  createdAt: true,
+} as const;
+
+export const MAX_TAGS = 50;
+const MAX_TAG_LENGTH = 50;
+export const TRASH_RETENTION_DAYS = parseInt(process.env.TRASH_RETENTION_DAYS || "30") || 30;
+
+// When a trashed item becomes eligible for permanent deletion
+export const getPurgeDate = (deletedAt: Date): Date =>
+  new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+// Builds the text that gets embedded for a content row, matching the format
+// each create endpoint uses so updated rows stay comparable with new ones
+export const buildEmbeddingText = (item: EmbeddableContent): string => {
+  const title = item.title?.trim() || "";
+  const content = item.content?.trim() || "";
+
+  switch (item.type) {
+    case "NOTE":
+      return [
+        `Title: ${title}`,
+        `Date: ${item.createdAt.toISOString()}`,
+        `Content: ${content}`
+      ].join('\n');
+    case "LINK":
+      return `title: ${title}\nDate: ${item.createdAt}\nContent: ${content}`;
+    default:
+      return content || title;
+  }
+};
+
+// Trims, de-duplicates and validates a list of tags. A comma-separated string
+// is accepted too, since multipart uploads and query strings can't send arrays.
+export const normalizeTags = (tags: unknown): { tags: string[]; error?: string } => {
+  if (tags === undefined || tags === null) {
+    return { tags: [] };
+  }
+
+  if (typeof tags === 'string') {
+    tags = tags.split(',');
+  }
+
+  if (!Array.isArray(tags) || !tags.every(tag => typeof tag === 'string')) {
+    return { tags: [], error: "Tags must be an array of strings" };
+  }
+
+  const normalized = [...new Set(
+    tags.map(tag => tag.trim()).filter(tag => tag.length > 0)
+  )];
+
+  if (normalized.length > MAX_TAGS) {
+    return { tags: [], error: `Too many tags (max ${MAX_TAGS})` };
+  }
+
+  if (normalized.some(tag => tag.length > MAX_TAG_LENGTH)) {
+    return { tags: [], error: `Tag is too long (max ${MAX_TAG_LENGTH} characters)` };
+  }
+
+  return { tags: normalized };
+};
+
+// Parses the `tags` / `tagMode` pair used by listing and search endpoints
+export const parseTagFilter = (
+  tags: unknown,
+  mode: unknown
+): { filter: TagFilter | null; error?: string } => {
+  const normalized = normalizeTags(tags);
+  if (normalized.error) {
+    return { filter: null, error: normalized.error };
+  }
+
+  if (mode !== undefined && mode !== "any" && mode !== "all") {
+    return { filter: null, error: "Tag mode must be 'any' or 'all'" };
+  }
+
+  if (normalized.tags.length === 0) {
+    return { filter: null };
+  }
+
+  return { filter: { tags: normalized.tags, mode: (mode as TagMatchMode) || "any" } };
+};
+
+// Prisma where fragment for a tag filter
+export const tagFilterWhere = (filter: TagFilter) =>
+  filter.mode === "all"
+    ? { tags: { hasEvery: filter.tags } }
+    : { tags: { hasSome: filter.tags } };
+
+// Applies the given changes to a content row, bumps updatedAt and records
+// the new state as a revision. Raw SQL is required because the embedding
+// column is Unsupported in Prisma.
+export const updateContentRecord = async (
+  id: string,
+  changes: ContentChanges
+): Promise<ContentRecord | null> => {
+  const assignments: Prisma.Sql[] = [];
+
+  if (changes.title !== undefined) {
+    assignments.push(Prisma.sql`title = ${changes.title}`);
+  }
+
+  if (changes.content !== undefined) {
+    assignments.push(Prisma.sql`content = ${changes.content}`);
+  }
+
+  if (changes.tags !== undefined) {
+    assignments.push(Prisma.sql`tags = ${changes.tags}::text[]`);
+  }
+
+  if (changes.metadata !== undefined) {
+    assignments.push(changes.metadata === null
+      ? Prisma.sql`metadata = NULL`
+      : Prisma.sql`metadata = ${JSON.stringify(changes.metadata)}::jsonb`);
+  }
+
+  if (changes.embedding !== undefined) {
+    const { provider, model } = getEmbeddingSource();
+    assignments.push(
+      Prisma.sql`embedding = ${changes.embedding}::vector`,
+      Prisma.sql`"embeddingProvider" = ${provider}`,
+      Prisma.sql`"embeddingModel" = ${model}`
+    );
+  }
+
+  assignments.push(Prisma.sql`"updatedAt" = NOW()`);
+
+  return prisma.$transaction(async (tx) => {
+    await ensureBaselineRevision(tx, id);
+
+    const rows = await tx.$queryRaw<ContentRecord[]>`
+      UPDATE "Content"
+      SET ${Prisma.join(assignments)}
+      WHERE id = ${id}
+      RETURNING
+        id,
+        url,
+        title,
+        content,
+        tags,
+        metadata,
+        "userId",
+        type,
+        "createdAt",
+        "updatedAt";
+    `;
+
+    if (rows.length === 0) {
+      return null;
+    }
+
+    await snapshotContent(tx, id);
+    return rows[0];
+  });
+};
+
+// Replaces the stored vector without touching the row's content or history
+export const updateContentEmbedding = async (id: string, embedding: number[]): Promise<boolean> => {
+  const { provider, model } = getEmbeddingSource();
+  const updated = await prisma.$executeRaw`
+    UPDATE "Content"
+    SET embedding = ${embedding}::vector, "embeddingProvider" = ${provider}, "embeddingModel" = ${model}
+    WHERE id = ${id};
+  `;
+  return updated > 0;
+};
@@ -1,4 +1,5 @@
 import { generateEmbedding } from "./embedding.service.js";
+import { splitIntoChunks, TextChunk } from "./chunk.service.js";
 import PDFParser from "pdf2json";
 import * as mammoth from "mammoth";
 
@@ -6,6 +7,7 @@ import * as mammoth from "mammoth";
 interface ProcessedDocument {
   content: string;
   embedding: number[];
+  chunks: TextChunk[];
   metadata: {
     fileName: string;
     fileSize: number;
@@ -21,6 +23,8 @@ interface ProcessedDocument {
 interface DocumentProcessor {
   canProcess: (mimeType: string) => boolean;
   process: (file: Express.Multer.File) => Promise<string>;
+  // Optional per-page extraction, used to record page numbers on chunks
+  processPages?: (file: Express.Multer.File) => Promise<string[]>;
   name: string;
 }
 
@@ -73,6 +77,11 @@ const pdfProcessor: DocumentProcessor = {
   canProcess: (mimeType: string) => SUPPORTED_MIME_TYPES.PDF.includes(mimeType),
 
   process: async (file: Express.Multer.File): Promise<string> => {
+    const pages = await pdfProcessor.processPages!(file);
+    return pages.join("\n").trim();
+  },
+
+  processPages: async (file: Express.Multer.File): Promise<string[]> => {
     return new Promise((resolve, reject) => {
       const pdfParser = new PDFParser(null, true); // Enable verbose mode for better error reporting
 
@@ -89,7 +98,7 @@ const pdfProcessor: DocumentProcessor = {
             return;
           }
 
-          const text = pdfData.Pages.map((page: any) => {
+          const pages: string[] = pdfData.Pages.map((page: any) => {
             if (!page.Texts) return "";
             return page.Texts.map((textItem: any) => {
               if (!textItem.R) return "";
@@ -97,16 +106,14 @@ const pdfProcessor: DocumentProcessor = {
                 decodeURIComponent(r.T || "")
               ).join(" ");
             }).join(" ");
-          })
-            .join("\n")
-            .trim();
+          });
 
-          if (text.length < MIN_CONTENT_LENGTH) {
+          if (pages.join("\n").trim().length < MIN_CONTENT_LENGTH) {
             reject(new Error("PDF contains insufficient extractable text"));
             return;
           }
 
-          resolve(text);
+          resolve(pages);
         } catch (err) {
           reject(
             new Error(
@@ -292,10 +299,16 @@ export const processDocument = async (
 
     console.log(`Processing ${file.originalname} using ${processor.name}`);
 
-    // Extract text content
+    // Extract text content, page by page when the format allows it
     let rawText: string;
+    let pages: string[] | null = null;
     try {
-      rawText = await processor.process(file);
+      if (processor.processPages) {
+        pages = await processor.processPages(file);
+        rawText = pages.join("\n").trim();
+      } else {
+        rawText = await processor.process(file);
+      }
     } catch (processingError) {
       throw new Error(
         `Document processing failed: ${
@@ -306,8 +319,21 @@ export const processDocument = async (
       );
     }
 
-    // Clean and process the text
-    const cleanedText = cleanText(rawText);
+    // Clean and process the text. Pages are cleaned one by one so we know
+    // where each page starts in the cleaned text.
+    let cleanedText: string;
+    const pageStarts: number[] = [];
+    if (pages) {
+      const cleanedPages = pages.map(cleanText);
+      let offset = 0;
+      for (const page of cleanedPages) {
+        pageStarts.push(offset);
+        if (page.length > 0) offset += page.length + 1;
+      }
+      cleanedText = cleanedPages.filter((page) => page.length > 0).join(" ");
+    } else {
+      cleanedText = cleanText(rawText);
+    }
 
     if (cleanedText.length < MIN_CONTENT_LENGTH) {
       throw new Error(
@@ -335,6 +361,10 @@ export const processDocument = async (
       );
     }
 
+    // Chunk the full extracted text, not just the stored part, so later pages
+    // stay searchable. Offsets refer to the cleaned text.
+    const chunks = splitIntoChunks(cleanedText, pageStarts);
+
     // Calculate metrics
     const metrics = extractMetrics(finalContent);
 
@@ -347,6 +377,8 @@ export const processDocument = async (
       extractionMethod: processor.name,
       wordCount: metrics.wordCount,
       characterCount: metrics.characterCount,
+      chunkCount: chunks.length,
+      ...(pages && { pageCount: pages.length }),
       ...(rawText !== finalContent && { truncated: true }),
     };
 
@@ -357,6 +389,7 @@ export const processDocument = async (
     return {
       content: finalContent,
       embedding,
+      chunks,
       metadata,
     };
   } catch (error) {
@@ -0,0 +1,182 @@
+import prisma from "../prisma.js";
+import { ContentRecord, normalizeTags, updateContentRecord } from "./content.service.js";
+import { getEmbeddingSource } from "./embeddingProvider.service.js";
+
+// Type definitions
+export type DuplicateMode = "reject" | "merge" | "allow";
+
+export interface DuplicateOptions {
+  mode: DuplicateMode;
+  threshold: number;
+}
+
+export interface DuplicateCandidate {
+  id: string;
+  title: string | null;
+  type: string;
+  url: string | null;
+  createdAt: Date;
+  similarity: number;
+  matchedBy: "url" | "embedding";
+}
+
+// Constants
+const DUPLICATE_MODES: DuplicateMode[] = ["reject", "merge", "allow"];
+const DEFAULT_DUPLICATE_THRESHOLD = parseFloat(process.env.DUPLICATE_SIMILARITY_THRESHOLD || "0.95") || 0.95;
+const MAX_CANDIDATES = 5;
+
+// Query parameters that only track where a click came from
+const TRACKING_PARAMS = [
+  /^utm_/,
+  /^fbclid$/,
+  /^gclid$/,
+  /^mc_(cid|eid)$/,
+  /^ref(_src)?$/,
+  /^si$/,
+];
+
+// Reads `onDuplicate` and `duplicateThreshold` from a request body or query
+export const parseDuplicateOptions = (
+  source: Record<string, any>
+): { options: DuplicateOptions; error?: string } => {
+  const mode = source.onDuplicate ?? "reject";
+  const options: DuplicateOptions = { mode, threshold: DEFAULT_DUPLICATE_THRESHOLD };
+
+  if (!DUPLICATE_MODES.includes(mode)) {
+    return { options, error: `onDuplicate must be one of: ${DUPLICATE_MODES.join(', ')}` };
+  }
+
+  if (source.duplicateThreshold !== undefined) {
+    const threshold = parseFloat(source.duplicateThreshold);
+    if (isNaN(threshold) || threshold <= 0 || threshold > 1) {
+      return { options, error: "duplicateThreshold must be a number between 0 and 1" };
+    }
+    options.threshold = threshold;
+  }
+
+  return { options };
+};
+
+// Canonical form of a URL for duplicate checks: lower-case host without www,
+// no fragment, tracking parameters or trailing slash, sorted query string
+export const normalizeUrl = (rawUrl: string): string => {
+  let url: URL;
+  try {
+    url = new URL(rawUrl.trim());
+  } catch {
+    return rawUrl.trim().toLowerCase();
+  }
+
+  const host = url.hostname.toLowerCase().replace(/^www\./, "");
+
+  // youtu.be/<id> and youtube.com/watch?v=<id> point at the same video
+  if (host === "youtu.be") {
+    return `youtube.com/watch?v=${url.pathname.slice(1)}`;
+  }
+
+  const params = [...url.searchParams.entries()]
+    .filter(([key]) => !TRACKING_PARAMS.some(pattern => pattern.test(key.toLowerCase())))
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  const path = url.pathname.replace(/\/+$/, "");
+  const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : "";
+
+  return `${host}${path}${query}`;
+};
+
+// Existing links of the user that normalize to the same URL. Links whose
+// ingestion failed don't count, so the URL can simply be saved again.
+export const findUrlDuplicates = async (userId: string, url: string): Promise<DuplicateCandidate[]> => {
+  const normalized = normalizeUrl(url);
+  const host = normalized.split(/[/?]/)[0];
+
+  // Narrow by host in SQL, then compare normalized forms. YouTube links may be
+  // stored under either youtube.com or youtu.be.
+  const links = await prisma.content.findMany({
+    where: {
+      userId,
+      type: "LINK",
+      deletedAt: null,
+      status: { not: "FAILED" },
+      url: { contains: host === "youtube.com" ? "youtu" : host, mode: "insensitive" }
+    },
+    orderBy: { createdAt: "desc" },
+    select: { id: true, title: true, type: true, url: true, createdAt: true }
+  });
+
+  return links
+    .filter(link => link.url && normalizeUrl(link.url) === normalized)
+    .slice(0, MAX_CANDIDATES)
+    .map(link => ({ ...link, similarity: 1, matchedBy: "url" as const }));
+};
+
+// Existing items of the same type whose vectors are within the threshold
+export const findEmbeddingDuplicates = async (
+  userId: string,
+  type: string,
+  embedding: number[],
+  threshold: number
+): Promise<DuplicateCandidate[]> => {
+  // Vectors from different models aren't comparable
+  const { provider, model } = getEmbeddingSource();
+
+  const candidates = await prisma.$queryRaw<Omit<DuplicateCandidate, "matchedBy">[]>`
+    SELECT
+      id,
+      title,
+      type,
+      url,
+      "createdAt",
+      1 - (embedding <=> ${embedding}::vector) AS similarity
+    FROM "Content"
+    WHERE "userId" = ${userId}
+    AND type = ${type}::"ContentType"
+    AND "deletedAt" IS NULL
+    AND embedding IS NOT NULL
+    AND "embeddingProvider" = ${provider}
+    AND "embeddingModel" = ${model}
+    AND 1 - (embedding <=> ${embedding}::vector) >= ${threshold}
+    ORDER BY embedding <=> ${embedding}::vector
+    LIMIT ${MAX_CANDIDATES};
+  `;
+
+  return candidates.map(candidate => ({ ...candidate, matchedBy: "embedding" as const }));
+};
+
+// Folds a duplicate submission into the existing item by adding its tags.
+// Nothing is written (no revision, no updatedAt bump) when it has them all,
+// and nothing when the combined tags would go over the per-item limit.
+export const mergeIntoExisting = async (
+  existingId: string,
+  tags: string[]
+): Promise<{ content: ContentRecord | null; error?: string }> => {
+  const existing = await prisma.content.findUnique({
+    where: { id: existingId },
+    select: {
+      id: true,
+      userId: true,
+      type: true,
+      title: true,
+      content: true,
+      tags: true,
+      metadata: true,
+      url: true,
+      createdAt: true,
+      updatedAt: true
+    }
+  });
+
+  if (!existing) return { content: null };
+
+  const combined = [...new Set([...existing.tags, ...tags])];
+  if (combined.length === existing.tags.length) {
+    return { content: existing };
+  }
+
+  const merged = normalizeTags(combined);
+  if (merged.error) {
+    return { content: null, error: merged.error };
+  }
+
+  return { content: await updateContentRecord(existingId, { tags: merged.tags }) };
+};
@@ -1,15 +1,13 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import { getEmbeddingProvider, VECTOR_DIMENSION } from "./embeddingProvider.service.js";
+import { embeddingCacheKey, getCachedEmbeddings, storeCachedEmbeddings } from "./embeddingCache.service.js";
 
 // Constants
 const MAX_BYTES = 8000; // Reduced from 9000 for safety margin
 const MAX_RETRIES = 3;
 const RETRY_DELAY_BASE = 1000; // 1 second
 const MIN_TEXT_LENGTH = 5;
-const EMBEDDING_DIMENSION = 768; // text-embedding-004 dimension
-
-// Initialize Google AI
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY as string);
-const model = genAI.getGenerativeModel({ model: "text-embedding-004" });
+const EMBEDDING_DIMENSION = VECTOR_DIMENSION;
+const PROVIDER_BATCH_SIZE = 32; // Texts per request for providers with a batch API
 
 // Types
 interface EmbeddingConfig {
@@ -80,15 +78,57 @@ const truncateText = (text: string, maxBytes: number): { text: string; truncated
   return { text: truncatedText, truncated: true };
 };
 
+// Validates, preprocesses and truncates text before it is sent to a provider
+const prepareText = (text: string, config: EmbeddingConfig): { text: string; truncated: boolean } => {
+  const { maxBytes = MAX_BYTES, preprocessText: shouldPreprocess = true } = config;
+
+  // Validate input text
+  const validation = validateText(text);
+  if (!validation.isValid) {
+    throw new Error(`Text validation failed: ${validation.error}`);
+  }
+
+  // Preprocess text if enabled
+  const processedText = shouldPreprocess ? preprocessText(text) : text;
+
+  // Truncate text if necessary
+  const prepared = truncateText(processedText, maxBytes);
+
+  if (prepared.truncated) {
+    console.warn(`Text was truncated from ${text.length} to ${prepared.text.length} characters`);
+  }
+
+  return prepared;
+};
+
+// Vectors go into fixed-size vector columns, so anything else can't be stored
+const validateEmbedding = (result: unknown): number[] => {
+  if (!Array.isArray(result) || result.length === 0) {
+    throw new Error('Invalid embedding: empty or non-array result');
+  }
+
+  if (result.length !== EMBEDDING_DIMENSION) {
+    throw new Error(`Unexpected embedding dimension: ${result.length}, expected: ${EMBEDDING_DIMENSION}`);
+  }
+
+  // Validate that all values are numbers
+  if (!result.every(val => typeof val === 'number' && !isNaN(val))) {
+    throw new Error('Invalid embedding: contains non-numeric values');
+  }
+
+  return result;
+};
+
 const sleep = (ms: number): Promise<void> => {
   return new Promise(resolve => setTimeout(resolve, ms));
 };
 
-// Exponential backoff retry logic
-const withRetry = async <T>(
+// Exponential backoff retry logic, also used for other flaky network steps
+export const withRetry = async <T>(
   operation: () => Promise<T>,
   maxRetries: number = MAX_RETRIES,
-  baseDelay: number = RETRY_DELAY_BASE
+  baseDelay: number = RETRY_DELAY_BASE,
+  label: string = "Embedding generation"
 ): Promise<T> => {
   let lastError: Error = Error('Unknown error');
 
@@ -98,8 +138,9 @@ const withRetry = async <T>(
     } catch (error: any) {
       lastError = error instanceof Error ? error : new Error(String(error));
       
-      // Don't retry on certain types of errors
-      if (lastError.message.includes('API key') || 
+      // Don't retry on certain types of errors, or on input that can never succeed
+      if (lastError.name === 'PermanentJobError' ||
+          lastError.message.includes('API key') || 
           lastError.message.includes('authentication') ||
           lastError.message.includes('quota') ||
           lastError.message.includes('billing')) {
@@ -112,12 +153,12 @@ const withRetry = async <T>(
 
       // Exponential backoff with jitter
       const delay = baseDelay * Math.pow(2, attempt) + Math.random() * 1000;
-      console.warn(`Embedding generation attempt ${attempt + 1} failed. Retrying in ${delay}ms...`, lastError.message);
+      console.warn(`${label} attempt ${attempt + 1} failed. Retrying in ${delay}ms...`, lastError.message);
       await sleep(delay);
     }
   }
 
-  throw new Error(`Embedding generation failed after ${maxRetries + 1} attempts. Last error: ${lastError.message}`);
+  throw new Error(`${label} failed after ${maxRetries + 1} attempts. Last error: ${lastError.message}`);
 };
 
 // Main embedding generation function
@@ -128,59 +169,31 @@ export const generateEmbedding = async (
   const startTime = Date.now();
   
   try {
-    // Validate API key
-    if (!process.env.GEMINI_API_KEY) {
-      throw new Error('GEMINI_API_KEY environment variable is not set');
-    }
+    const provider = getEmbeddingProvider();
 
     // Apply configuration
     const {
-      maxBytes = MAX_BYTES,
       maxRetries = MAX_RETRIES,
-      retryDelay = RETRY_DELAY_BASE,
-      preprocessText: shouldPreprocess = true
+      retryDelay = RETRY_DELAY_BASE
     } = config;
 
-    // Validate input text
-    const validation = validateText(text);
-    if (!validation.isValid) {
-      throw new Error(`Text validation failed: ${validation.error}`);
-    }
+    const { text: truncatedText, truncated } = prepareText(text, config);
 
-    // Preprocess text if enabled
-    let processedText = shouldPreprocess ? preprocessText(text) : text;
-    
-    // Truncate text if necessary
-    const { text: truncatedText, truncated } = truncateText(processedText, maxBytes);
-
-    if (truncated) {
-      console.warn(`Text was truncated from ${text.length} to ${truncatedText.length} characters`);
+    // The same text through the same model always gives the same vector
+    const cacheKey = embeddingCacheKey(provider.name, provider.model, truncatedText);
+    const cached = (await getCachedEmbeddings([cacheKey])).get(cacheKey);
+    if (cached) {
+      return cached;
     }
 
     // Generate embedding with retry logic
-    const result = await withRetry(async () => {
-      const response = await model.embedContent(truncatedText);
-      
-      if (!response.embedding || !response.embedding.values) {
-        throw new Error('Invalid response from embedding API: missing embedding values');
-      }
-
-      return response.embedding.values;
-    }, maxRetries, retryDelay);
-
-    // Validate embedding result
-    if (!Array.isArray(result) || result.length === 0) {
-      throw new Error('Invalid embedding: empty or non-array result');
-    }
-
-    if (result.length !== EMBEDDING_DIMENSION) {
-      console.warn(`Unexpected embedding dimension: ${result.length}, expected: ${EMBEDDING_DIMENSION}`);
-    }
+    const result = validateEmbedding(
+      await withRetry(() => provider.embed(truncatedText), maxRetries, retryDelay)
+    );
 
-    // Validate that all values are numbers
-    if (!result.every(val => typeof val === 'number' && !isNaN(val))) {
-      throw new Error('Invalid embedding: contains non-numeric values');
-    }
+    await storeCachedEmbeddings([
+      { key: cacheKey, provider: provider.name, model: provider.model, embedding: result }
+    ]);
 
     const processingTime = Date.now() - startTime;
     console.log(`Embedding generated successfully in ${processingTime}ms (${truncated ? 'truncated' : 'full'} text)`);
@@ -235,6 +248,40 @@ export const generateEmbeddingsBatch = async (
     throw new Error('Texts must be a non-empty array');
   }
 
+  const provider = getEmbeddingProvider();
+
+  // Providers with a batch API get whole slices of texts per request. Only
+  // texts missing from the cache are sent, each distinct text once.
+  if (provider.embedBatch) {
+    const { maxRetries = MAX_RETRIES, retryDelay = RETRY_DELAY_BASE } = config;
+    const prepared = texts.map(text => prepareText(text, config).text);
+    const keys = prepared.map(text => embeddingCacheKey(provider.name, provider.model, text));
+    const embeddings = await getCachedEmbeddings(keys);
+
+    const missing = new Map<string, string>();
+    keys.forEach((key, i) => {
+      if (!embeddings.has(key)) missing.set(key, prepared[i]);
+    });
+
+    const missingKeys = [...missing.keys()];
+    for (let i = 0; i < missingKeys.length; i += PROVIDER_BATCH_SIZE) {
+      const batchKeys = missingKeys.slice(i, i + PROVIDER_BATCH_SIZE);
+      const batch = batchKeys.map(key => missing.get(key)!);
+      const batchResults = (await withRetry(() => provider.embedBatch!(batch), maxRetries, retryDelay))
+        .map(validateEmbedding);
+
+      batchKeys.forEach((key, j) => embeddings.set(key, batchResults[j]));
+      await storeCachedEmbeddings(batchKeys.map((key, j) => ({
+        key,
+        provider: provider.name,
+        model: provider.model,
+        embedding: batchResults[j]
+      })));
+    }
+
+    return keys.map(key => embeddings.get(key)!);
+  }
+
   const maxConcurrent = 5; // Limit concurrent requests
   const results: number[][] = [];
   
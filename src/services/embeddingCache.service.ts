@@ -0,0 +1,180 @@
+import { createHash } from "crypto";
+import prisma from "../prisma.js";
+
+// Type definitions
+export interface CachedEmbedding {
+  key: string;
+  provider: string;
+  model: string;
+  embedding: number[];
+}
+
+export interface EmbeddingCacheStats {
+  enabled: boolean;
+  memoryHits: number;
+  databaseHits: number;
+  misses: number;
+  hitRate: number;
+  memoryEntries: number;
+  memoryCapacity: number;
+  storedEntries: number;
+  maxStoredEntries: number;
+  ttlDays: number;
+}
+
+// Constants
+const CACHE_ENABLED = process.env.EMBEDDING_CACHE !== "false";
+const MEMORY_CAPACITY = parseInt(process.env.EMBEDDING_CACHE_MEMORY_SIZE || "1000") || 1000;
+export const EMBEDDING_CACHE_TTL_DAYS = parseInt(process.env.EMBEDDING_CACHE_TTL_DAYS || "30") || 30;
+export const EMBEDDING_CACHE_MAX_ROWS = parseInt(process.env.EMBEDDING_CACHE_MAX_ROWS || "50000") || 50000;
+// lastUsedAt only needs to be roughly right for expiry, so hits don't write it every time
+const TOUCH_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// In-process LRU in front of the table. A Map iterates in insertion order, so
+// re-inserting on access keeps the least recently used entry first.
+const memory = new Map<string, number[]>();
+// When each remembered entry's lastUsedAt was last written
+const touchedAt = new Map<string, number>();
+
+const counters = {
+  memoryHits: 0,
+  databaseHits: 0,
+  misses: 0
+};
+
+const remember = (key: string, embedding: number[], touched = Date.now()) => {
+  memory.delete(key);
+  memory.set(key, embedding);
+  touchedAt.set(key, touched);
+
+  while (memory.size > MEMORY_CAPACITY) {
+    const oldest = memory.keys().next().value as string;
+    memory.delete(oldest);
+    touchedAt.delete(oldest);
+  }
+};
+
+export const isEmbeddingCacheEnabled = () => CACHE_ENABLED;
+
+// Same text through a different provider or model is a different vector
+export const embeddingCacheKey = (provider: string, model: string, text: string): string =>
+  createHash("sha256").update(`${provider}\u0000${model}\u0000${text}`).digest("hex");
+
+// Looks the keys up in memory first, then in the table. Cache errors are
+// logged and treated as misses so embedding never fails because of them.
+export const getCachedEmbeddings = async (keys: string[]): Promise<Map<string, number[]>> => {
+  const found = new Map<string, number[]>();
+  if (!CACHE_ENABLED || keys.length === 0) return found;
+
+  const uniqueKeys = [...new Set(keys)];
+  const toLoad: string[] = [];
+  const toTouch: string[] = [];
+
+  for (const key of uniqueKeys) {
+    const embedding = memory.get(key);
+    if (embedding) {
+      found.set(key, embedding);
+      counters.memoryHits++;
+      if (Date.now() - (touchedAt.get(key) ?? 0) > TOUCH_INTERVAL_MS) toTouch.push(key);
+      remember(key, embedding, touchedAt.get(key));
+    } else {
+      toLoad.push(key);
+    }
+  }
+
+  if (toLoad.length > 0) {
+    try {
+      const rows = await prisma.$queryRaw<{ hash: string; embedding: string }[]>`
+        SELECT hash, embedding::text AS embedding
+        FROM "EmbeddingCache"
+        WHERE hash = ANY(${toLoad}::text[]);
+      `;
+
+      for (const row of rows) {
+        // pgvector's text form is a JSON array
+        const embedding = JSON.parse(row.embedding) as number[];
+        found.set(row.hash, embedding);
+        remember(row.hash, embedding);
+        toTouch.push(row.hash);
+      }
+      counters.databaseHits += rows.length;
+    } catch (error) {
+      console.warn("Embedding cache lookup failed:", error instanceof Error ? error.message : error);
+    }
+  }
+
+  counters.misses += uniqueKeys.length - found.size;
+
+  if (toTouch.length > 0) {
+    try {
+      await prisma.$executeRaw`
+        UPDATE "EmbeddingCache" SET "lastUsedAt" = NOW() WHERE hash = ANY(${toTouch}::text[]);
+      `;
+      for (const key of toTouch) {
+        if (touchedAt.has(key)) touchedAt.set(key, Date.now());
+      }
+    } catch (error) {
+      console.warn("Embedding cache update failed:", error instanceof Error ? error.message : error);
+    }
+  }
+
+  return found;
+};
+
+export const storeCachedEmbeddings = async (entries: CachedEmbedding[]): Promise<void> => {
+  if (!CACHE_ENABLED || entries.length === 0) return;
+
+  for (const entry of entries) {
+    remember(entry.key, entry.embedding);
+  }
+
+  try {
+    await prisma.$transaction(entries.map(entry => prisma.$executeRaw`
+      INSERT INTO "EmbeddingCache" (hash, provider, model, embedding, "createdAt", "lastUsedAt")
+      VALUES (${entry.key}, ${entry.provider}, ${entry.model}, ${entry.embedding}::vector, NOW(), NOW())
+      ON CONFLICT (hash) DO UPDATE SET "lastUsedAt" = NOW();
+    `));
+  } catch (error) {
+    console.warn("Embedding cache write failed:", error instanceof Error ? error.message : error);
+  }
+};
+
+export const getEmbeddingCacheStats = async (): Promise<EmbeddingCacheStats> => {
+  const [{ count }] = await prisma.$queryRaw<{ count: bigint }[]>`
+    SELECT COUNT(*) AS count FROM "EmbeddingCache";
+  `;
+  const hits = counters.memoryHits + counters.databaseHits;
+  const lookups = hits + counters.misses;
+
+  return {
+    enabled: CACHE_ENABLED,
+    ...counters,
+    hitRate: lookups === 0 ? 0 : Math.round((hits / lookups) * 1000) / 1000,
+    memoryEntries: memory.size,
+    memoryCapacity: MEMORY_CAPACITY,
+    storedEntries: Number(count),
+    maxStoredEntries: EMBEDDING_CACHE_MAX_ROWS,
+    ttlDays: EMBEDDING_CACHE_TTL_DAYS
+  };
+};
+
+// Drops entries unused for longer than the TTL, then the least recently used
+// ones beyond the row limit. Returns how many rows were removed.
+export const pruneEmbeddingCache = async (): Promise<number> => {
+  const { count: expired } = await prisma.embeddingCache.deleteMany({
+    where: {
+      lastUsedAt: { lt: new Date(Date.now() - EMBEDDING_CACHE_TTL_DAYS * 24 * 60 * 60 * 1000) }
+    }
+  });
+
+  const overflow = await prisma.$executeRaw`
+    DELETE FROM "EmbeddingCache"
+    WHERE hash IN (
+      SELECT hash FROM "EmbeddingCache"
+      ORDER BY "lastUsedAt" DESC
+      OFFSET ${EMBEDDING_CACHE_MAX_ROWS}
+    );
+  `;
+
+  return expired + overflow;
+};
@@ -0,0 +1,163 @@
+import axios from "axios";
+import { GoogleGenerativeAI } from "@google/generative-ai";
+
+// Type definitions
+export interface EmbeddingProvider {
+  name: string;
+  model: string;
+  embed(text: string): Promise<number[]>;
+  embedBatch?(texts: string[]): Promise<number[][]>;
+}
+
+export interface EmbeddingSource {
+  provider: string;
+  model: string;
+}
+
+export type EmbeddingProviderName = "gemini" | "openai-compatible" | "local";
+
+// Constants
+// Every stored vector lives in a vector(n) column, whatever produced it. Changing
+// this needs a migration of the Content and ContentChunk columns to the new size,
+// then `npm run reembed` to fill them again.
+export const VECTOR_DIMENSION = parseInt(process.env.EMBEDDING_DIMENSION || "768") || 768;
+const PROVIDER_NAMES: EmbeddingProviderName[] = ["gemini", "openai-compatible", "local"];
+const DEFAULT_MODELS: Record<EmbeddingProviderName, string> = {
+  "gemini": "text-embedding-004",
+  "openai-compatible": "nomic-embed-text",
+  "local": "hashing-v1"
+};
+const DEFAULT_OPENAI_BASE_URL = "http://localhost:11434/v1"; // Ollama
+const OPENAI_TIMEOUT_MS = 30000;
+
+// Google text-embedding models through the Gemini API
+const createGeminiProvider = (model: string): EmbeddingProvider => {
+  if (!process.env.GEMINI_API_KEY) {
+    throw new Error('GEMINI_API_KEY environment variable is not set');
+  }
+
+  const client = new GoogleGenerativeAI(process.env.GEMINI_API_KEY).getGenerativeModel({ model });
+
+  return {
+    name: "gemini",
+    model,
+    embed: async (text) => {
+      const response = await client.embedContent(text);
+
+      if (!response.embedding || !response.embedding.values) {
+        throw new Error('Invalid response from embedding API: missing embedding values');
+      }
+
+      return response.embedding.values;
+    }
+  };
+};
+
+// Any server speaking the OpenAI /embeddings API: OpenAI itself, Ollama,
+// llama.cpp, vLLM, LM Studio...
+const createOpenAICompatibleProvider = (model: string): EmbeddingProvider => {
+  const baseUrl = (process.env.EMBEDDING_BASE_URL || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, "");
+  const headers = process.env.EMBEDDING_API_KEY
+    ? { Authorization: `Bearer ${process.env.EMBEDDING_API_KEY}` }
+    : undefined;
+
+  const embedBatch = async (texts: string[]): Promise<number[][]> => {
+    const response = await axios.post<{ data: { index: number; embedding: number[] }[] }>(
+      `${baseUrl}/embeddings`,
+      // text-embedding-3-* default to 1536/3072 values; ask for the column width
+      { model, input: texts, dimensions: VECTOR_DIMENSION },
+      { headers, timeout: OPENAI_TIMEOUT_MS }
+    );
+
+    const data = response.data?.data;
+    if (!Array.isArray(data) || data.length !== texts.length) {
+      throw new Error('Invalid response from embedding API: missing embedding values');
+    }
+
+    return [...data]
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  };
+
+  return {
+    name: "openai-compatible",
+    model,
+    embed: async (text) => (await embedBatch([text]))[0],
+    embedBatch
+  };
+};
+
+// 32-bit FNV-1a
+const hashToken = (token: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Deterministic feature-hashing embedder for offline development and tests.
+// Words and character trigrams are hashed into signed buckets, so texts that
+// share vocabulary end up close together. No semantics, but no network either.
+const createLocalProvider = (model: string): EmbeddingProvider => {
+  const embed = (text: string): number[] => {
+    const vector = new Array<number>(VECTOR_DIMENSION).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+    const addFeature = (feature: string, weight: number) => {
+      const hash = hashToken(feature);
+      vector[hash % VECTOR_DIMENSION] += (hash & 0x80000000 ? -1 : 1) * weight;
+    };
+
+    for (const word of words) {
+      addFeature(`w:${word}`, 1);
+
+      const padded = `^${word}$`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        addFeature(`t:${padded.slice(i, i + 3)}`, 0.5);
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map(value => value / norm);
+  };
+
+  return {
+    name: "local",
+    model,
+    embed: async (text) => embed(text),
+    embedBatch: async (texts) => texts.map(embed)
+  };
+};
+
+const PROVIDER_FACTORIES: Record<EmbeddingProviderName, (model: string) => EmbeddingProvider> = {
+  "gemini": createGeminiProvider,
+  "openai-compatible": createOpenAICompatibleProvider,
+  "local": createLocalProvider
+};
+
+let activeProvider: EmbeddingProvider | null = null;
+
+// Provider picked by EMBEDDING_PROVIDER (default gemini) and EMBEDDING_MODEL.
+// Created on first use so a missing key only matters once embeddings are needed.
+export const getEmbeddingProvider = (): EmbeddingProvider => {
+  if (activeProvider) return activeProvider;
+
+  const name = (process.env.EMBEDDING_PROVIDER || "gemini").toLowerCase() as EmbeddingProviderName;
+  if (!PROVIDER_NAMES.includes(name)) {
+    throw new Error(`Unknown EMBEDDING_PROVIDER "${name}". Use one of: ${PROVIDER_NAMES.join(', ')}`);
+  }
+
+  const provider = PROVIDER_FACTORIES[name](process.env.EMBEDDING_MODEL || DEFAULT_MODELS[name]);
+  console.log(`Using ${provider.name} embeddings (${provider.model})`);
+
+  activeProvider = provider;
+  return provider;
+};
+
+// Provider and model recorded next to every stored vector
+export const getEmbeddingSource = (): EmbeddingSource => {
+  const { name, model } = getEmbeddingProvider();
+  return { provider: name, model };
+};
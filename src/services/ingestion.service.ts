@@ -0,0 +1,240 @@
+import { Job } from "@prisma/client";
+import prisma from "../prisma.js";
+import { generateEmbedding, withRetry } from "./embedding.service.js";
+import { getEmbeddingSource } from "./embeddingProvider.service.js";
+import { buildEmbeddingText } from "./content.service.js";
+import {
+  DuplicateMode,
+  findEmbeddingDuplicates,
+  mergeIntoExisting,
+} from "./duplicate.service.js";
+import { fetchLinkMetadata } from "./linkMetadata.service.js";
+import { processDocument } from "./document.service.js";
+import { deleteFromTebiStorage, downloadFromTebiStorage } from "./tebiStorage.service.js";
+import { storeContentChunks } from "./chunk.service.js";
+import { resolvePendingLinks } from "./wikiLink.service.js";
+import { PermanentJobError, registerJobHandler } from "./jobQueue.service.js";
+
+// Type definitions
+interface DuplicatePayload {
+  onDuplicate: DuplicateMode;
+  duplicateThreshold: number;
+}
+
+export interface LinkJobPayload extends DuplicatePayload {
+  url: string;
+  tags: string[];
+}
+
+export interface DocumentJobPayload extends DuplicatePayload {
+  fileName: string;
+  mimeType: string;
+  size: number;
+  tags: string[];
+}
+
+interface CompletedContent {
+  title: string;
+  content: string;
+  url?: string;
+  metadata: Record<string, unknown>;
+  embedding: number[];
+}
+
+// Constants
+const FETCH_RETRIES = 2;
+const FETCH_RETRY_DELAY = 2000;
+
+// The placeholder row created when the job was enqueued
+const loadPendingContent = async (job: Job) => {
+  const content = job.contentId
+    ? await prisma.content.findUnique({
+        where: { id: job.contentId },
+        select: { id: true, userId: true, createdAt: true, tags: true }
+      })
+    : null;
+
+  if (!content) {
+    throw new PermanentJobError("The content for this job was deleted before it could be processed");
+  }
+  return content;
+};
+
+// Rejects the new item or folds it into an existing one when a near-duplicate
+// exists. Returns the job result for a merge, or null when ingestion should go on.
+const handleDuplicates = async (
+  contentId: string,
+  userId: string,
+  type: "LINK" | "DOCUMENT",
+  embedding: number[],
+  tags: string[],
+  payload: DuplicatePayload
+) => {
+  if (payload.onDuplicate === "allow") return null;
+
+  const duplicates = await findEmbeddingDuplicates(userId, type, embedding, payload.duplicateThreshold);
+  if (duplicates.length === 0) return null;
+
+  // Merged before the placeholder goes, so a refused merge leaves it FAILED
+  let mergedId: string | undefined;
+  if (payload.onDuplicate === "merge") {
+    const merged = await mergeIntoExisting(duplicates[0].id, tags);
+    if (merged.error) {
+      throw new PermanentJobError(merged.error, { duplicates: JSON.parse(JSON.stringify(duplicates)) });
+    }
+    mergedId = merged.content?.id ?? duplicates[0].id;
+  }
+
+  // The placeholder never held anything the user wrote, so it can go, along
+  // with a document's stored file
+  const placeholder = await prisma.content.delete({
+    where: { id: contentId },
+    select: { url: true }
+  });
+  if (type === "DOCUMENT" && placeholder.url) {
+    await deleteFromTebiStorage(placeholder.url).catch(error =>
+      console.error(`Error removing stored file of duplicate ${contentId}:`, error)
+    );
+  }
+
+  if (mergedId) {
+    return JSON.parse(JSON.stringify({ merged: true, contentId: mergedId, duplicates }));
+  }
+
+  throw new PermanentJobError(
+    type === "LINK" ? "This link has already been saved" : "A similar document already exists",
+    { duplicates: JSON.parse(JSON.stringify(duplicates)) }
+  );
+};
+
+// Fills in the placeholder and marks it ready
+const completeContent = async (contentId: string, completed: CompletedContent) => {
+  const { provider, model } = getEmbeddingSource();
+
+  await prisma.$executeRaw`
+    UPDATE "Content"
+    SET
+      title = ${completed.title},
+      content = ${completed.content},
+      url = COALESCE(${completed.url ?? null}, url),
+      metadata = ${JSON.stringify(completed.metadata)}::jsonb,
+      embedding = ${completed.embedding}::vector,
+      "embeddingProvider" = ${provider},
+      "embeddingModel" = ${model},
+      status = 'READY',
+      "updatedAt" = NOW()
+    WHERE id = ${contentId};
+  `;
+};
+
+// Fetches the page, embeds it and fills in the placeholder link
+const ingestLink = async (job: Job) => {
+  const payload = job.payload as unknown as LinkJobPayload;
+  const content = await loadPendingContent(job);
+
+  const metadata = await withRetry(
+    () => fetchLinkMetadata(payload.url),
+    FETCH_RETRIES,
+    FETCH_RETRY_DELAY,
+    "Link metadata fetch"
+  );
+
+  if (!metadata.title) {
+    throw new PermanentJobError("Could not fetch metadata title");
+  }
+
+  const embedding = await generateEmbedding(buildEmbeddingText({
+    type: "LINK",
+    title: metadata.title,
+    content: metadata.content,
+    createdAt: content.createdAt
+  }));
+
+  // Different URL, same article (mirrors, AMP pages, reposts)
+  const mergeResult = await handleDuplicates(content.id, content.userId, "LINK", embedding, content.tags, payload);
+  if (mergeResult) return mergeResult;
+
+  await completeContent(content.id, {
+    title: metadata.title,
+    content: metadata.content,
+    metadata: { thumbnail: metadata.thumbnail },
+    embedding
+  });
+  await resolvePendingLinks(content.userId, content.id, metadata.title);
+
+  return { contentId: content.id };
+};
+
+// Reads the upload back from Tebi. A missing object won't come back, so
+// that failure is final.
+const loadStoredFile = async (fileKey: string | null): Promise<Buffer> => {
+  if (!fileKey) {
+    throw new PermanentJobError("The uploaded file is no longer available");
+  }
+
+  try {
+    return await downloadFromTebiStorage(fileKey);
+  } catch (error) {
+    if (error instanceof Error && error.name === 'NoSuchKey') {
+      throw new PermanentJobError("The uploaded file is no longer available");
+    }
+    throw error;
+  }
+};
+
+// Extracts and embeds the file uploaded to Tebi and fills in the placeholder
+// document, which already points at the stored file
+const ingestDocument = async (job: Job) => {
+  const payload = job.payload as unknown as DocumentJobPayload;
+  const content = await loadPendingContent(job);
+
+  const buffer = await withRetry(
+    () => loadStoredFile(job.fileKey),
+    FETCH_RETRIES,
+    FETCH_RETRY_DELAY,
+    "Document download"
+  );
+
+  // Processing only reads these fields of the multer file
+  const file = {
+    originalname: payload.fileName,
+    mimetype: payload.mimeType,
+    size: payload.size,
+    buffer
+  } as unknown as Express.Multer.File;
+
+  const { content: text, embedding, chunks, metadata } = await processDocument(file);
+
+  if (!text || !Array.isArray(embedding) || embedding.length === 0) {
+    throw new PermanentJobError("Document processing returned invalid data");
+  }
+
+  if (!metadata.fileName) {
+    metadata.fileName = payload.fileName;
+  }
+
+  const mergeResult = await handleDuplicates(content.id, content.userId, "DOCUMENT", embedding, content.tags, payload);
+  if (mergeResult) return mergeResult;
+
+  await completeContent(content.id, {
+    title: metadata.fileName,
+    content: text,
+    metadata,
+    embedding
+  });
+  await resolvePendingLinks(content.userId, content.id, metadata.fileName);
+
+  // Chunk embeddings make the whole document searchable; the document itself
+  // is already saved, so a failure here is reported rather than fatal
+  let chunkCount = 0;
+  try {
+    chunkCount = await storeContentChunks(content.id, chunks);
+  } catch (error) {
+    console.error("Error storing document chunks:", error);
+  }
+
+  return { contentId: content.id, chunkCount };
+};
+
+registerJobHandler("INGEST_LINK", ingestLink);
+registerJobHandler("INGEST_DOCUMENT", ingestDocument);
@@ -0,0 +1,201 @@
+import { Job, JobType, Prisma } from "@prisma/client";
+import prisma from "../prisma.js";
+
+// Type definitions
+export type JobHandler = (job: Job) => Promise<Prisma.InputJsonValue>;
+
+export interface EnqueueJobInput {
+  userId: string;
+  type: JobType;
+  contentId?: string;
+  payload: Prisma.InputJsonValue;
+  fileKey?: string | null;
+}
+
+// A failure that retrying won't fix, such as a rejected duplicate. The result
+// is stored on the job so clients can see why it failed.
+export class PermanentJobError extends Error {
+  result?: Prisma.InputJsonValue;
+
+  constructor(message: string, result?: Prisma.InputJsonValue) {
+    super(message);
+    this.name = "PermanentJobError";
+    this.result = result;
+  }
+}
+
+// Constants
+const RETRY_BACKOFF_MS = 30 * 1000;
+// Jobs still RUNNING after this long belong to a worker that died
+const STALE_LOCK_MS = 10 * 60 * 1000;
+export const JOB_RETENTION_DAYS = parseInt(process.env.JOB_RETENTION_DAYS || "7") || 7;
+
+const handlers = new Map<JobType, JobHandler>();
+
+export const registerJobHandler = (type: JobType, handler: JobHandler) => {
+  handlers.set(type, handler);
+};
+
+export const enqueueJob = async (
+  input: EnqueueJobInput,
+  client: Prisma.TransactionClient = prisma
+): Promise<Job> =>
+  client.job.create({
+    data: {
+      userId: input.userId,
+      type: input.type,
+      contentId: input.contentId,
+      payload: input.payload,
+      fileKey: input.fileKey
+    }
+  });
+
+// Locks the next due job for this worker. SKIP LOCKED lets several workers
+// poll the same table without handing out a job twice.
+const claimNextJob = async (): Promise<Job | null> => {
+  const jobs = await prisma.$queryRaw<Job[]>`
+    UPDATE "Job"
+    SET status = 'RUNNING', "lockedAt" = NOW(), attempts = attempts + 1, "updatedAt" = NOW()
+    WHERE id = (
+      SELECT id FROM "Job"
+      WHERE status = 'QUEUED' AND "runAt" <= NOW()
+      ORDER BY "runAt"
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *;
+  `;
+  return jobs[0] ?? null;
+};
+
+// Puts jobs abandoned by a crashed worker back in the queue
+const requeueStaleJobs = async (): Promise<number> => {
+  const { count } = await prisma.job.updateMany({
+    where: {
+      status: "RUNNING",
+      lockedAt: { lt: new Date(Date.now() - STALE_LOCK_MS) }
+    },
+    data: { status: "QUEUED", lockedAt: null }
+  });
+  return count;
+};
+
+const markContentFailed = async (contentId: string | null) => {
+  if (!contentId) return;
+  await prisma.content.updateMany({
+    where: { id: contentId, status: "PENDING" },
+    data: { status: "FAILED" }
+  });
+};
+
+const runJob = async (job: Job) => {
+  const handler = handlers.get(job.type);
+
+  try {
+    if (!handler) {
+      throw new PermanentJobError(`No handler registered for ${job.type} jobs`);
+    }
+
+    const result = await handler(job);
+
+    await prisma.job.update({
+      where: { id: job.id },
+      data: { status: "SUCCEEDED", result, error: null, lockedAt: null, finishedAt: new Date() }
+    });
+    console.log(`Job ${job.id} (${job.type}) succeeded after ${job.attempts} attempt(s)`);
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const permanent = error instanceof PermanentJobError;
+
+    if (!permanent && job.attempts < job.maxAttempts) {
+      const delay = RETRY_BACKOFF_MS * Math.pow(2, job.attempts - 1);
+      await prisma.job.update({
+        where: { id: job.id },
+        data: { status: "QUEUED", error: message, lockedAt: null, runAt: new Date(Date.now() + delay) }
+      });
+      console.warn(`Job ${job.id} (${job.type}) attempt ${job.attempts} failed, retrying in ${delay}ms:`, message);
+      return;
+    }
+
+    await prisma.job.update({
+      where: { id: job.id },
+      data: {
+        status: "FAILED",
+        error: message,
+        result: permanent ? error.result : undefined,
+        lockedAt: null,
+        finishedAt: new Date()
+      }
+    });
+    await markContentFailed(job.contentId);
+    console.error(`Job ${job.id} (${job.type}) failed:`, message);
+  }
+};
+
+let draining = false;
+
+// Runs due jobs one at a time until the queue is empty, or until the time
+// budget is used up; a job that has started always runs to the end. Calls
+// made while a drain is already in progress return straight away.
+export const runPendingJobs = async (timeBudgetMs?: number): Promise<number> => {
+  if (draining) return 0;
+  draining = true;
+
+  const deadline = timeBudgetMs === undefined ? Infinity : Date.now() + timeBudgetMs;
+  let processed = 0;
+  try {
+    const requeued = await requeueStaleJobs();
+    if (requeued > 0) {
+      console.warn(`Requeued ${requeued} stale job(s)`);
+    }
+
+    let job: Job | null;
+    while (Date.now() < deadline && (job = await claimNextJob())) {
+      await runJob(job);
+      processed++;
+    }
+  } catch (error) {
+    console.error("Error running queued jobs:", error);
+  } finally {
+    draining = false;
+  }
+
+  return processed;
+};
+
+// Starts a drain without waiting for it, e.g. right after enqueueing. This
+// only helps a long-lived server: a serverless function is frozen once the
+// response is sent, and there the cron route does the work.
+export const kickJobWorker = () => {
+  void runPendingJobs();
+};
+
+// Removes finished jobs past the retention period
+export const purgeFinishedJobs = async (): Promise<number> => {
+  const { count } = await prisma.job.deleteMany({
+    where: {
+      status: { in: ["SUCCEEDED", "FAILED"] },
+      finishedAt: { lt: new Date(Date.now() - JOB_RETENTION_DAYS * 24 * 60 * 60 * 1000) }
+    }
+  });
+  return count;
+};
+
+// Puts a failed job back in the queue for a fresh set of attempts
+export const retryJob = async (jobId: string): Promise<Job> =>
+  prisma.$transaction(async (tx) => {
+    const job = await tx.job.update({
+      where: { id: jobId },
+      data: { status: "QUEUED", attempts: 0, error: null, result: Prisma.DbNull, runAt: new Date(), finishedAt: null }
+    });
+
+    if (job.contentId) {
+      await tx.content.updateMany({
+        where: { id: job.contentId, status: "FAILED" },
+        data: { status: "PENDING" }
+      });
+    }
+
+    return job;
+  });
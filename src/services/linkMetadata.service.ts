@@ -0,0 +1,121 @@
+import puppeteer from "puppeteer";
+import axios from "axios";
+import { PermanentJobError } from "./jobQueue.service.js";
+
+type YouTubeApiResponse = {
+  items: { snippet: { title: string; description: string; thumbnails: { high?: { url: string } } } }[];
+};
+
+const YOUTUBE_API_KEY = process.env.YOUTUBE_API_KEY;
+
+const fetchTwitterMetadata = async (url: string) => {
+  const browser = await puppeteer.launch({ headless: true });
+  // Closed on every path; a leaked Chromium outlives the job in the worker
+  try {
+    const page = await browser.newPage();
+
+    await page.setUserAgent(
+      "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36"
+    );
+
+    await page.goto(url, { waitUntil: "networkidle2", timeout: 60000 });
+    await page.waitForSelector("body");
+
+    const metadata = await page.evaluate(() => {
+      const tweetText =
+        document
+          .querySelector("article div[data-testid='tweetText']")
+          ?.textContent?.trim() || "No tweet content available";
+      const author =
+        document
+          .querySelector("article a[role='link'] span")
+          ?.textContent?.trim() || "Unknown author";
+
+      return {
+        title: `Tweet by ${author}`,
+        content: tweetText,
+        thumbnail: null,
+      };
+    });
+
+    return metadata;
+  } finally {
+    await browser.close();
+  }
+};
+
+// Network and API errors propagate so the caller can retry them; only a URL
+// without a video ID or a video that doesn't exist fails for good
+const fetchYouTubeMetadata = async (url: string) => {
+  const videoId = url.match(/(?:youtube\.com\/watch\?v=|youtu\.be\/)([^&]+)/)?.[1];
+  if (!videoId) throw new PermanentJobError("Invalid YouTube URL");
+
+  const response = await axios.get<YouTubeApiResponse>(
+    `https://www.googleapis.com/youtube/v3/videos?id=${videoId}&key=${YOUTUBE_API_KEY}&part=snippet`
+  );
+
+  const video = response.data.items[0]?.snippet;
+  if (!video) throw new PermanentJobError("YouTube video not found");
+
+  return {
+    title: video.title,
+    content: video.description,
+    thumbnail: video.thumbnails.high?.url || null,
+  };
+};
+
+const fetchWebsiteMetadata = async (url: string) => {
+  const browser = await puppeteer.launch({ headless: true });
+  try {
+    const page = await browser.newPage();
+
+    await page.setUserAgent(
+      "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36"
+    );
+
+    await page.goto(url, { waitUntil: "networkidle2", timeout: 60000 });
+    await page.waitForSelector("body");
+
+    const metadata = await page.evaluate(() => {
+      const title = document.title || "No title available";
+      const bodyText = document.body.innerText?.trim() || "";
+
+      const ogImage = document.querySelector("meta[property='og:image']")?.getAttribute("content");
+      const favicon = document.querySelector("link[rel='icon']")?.getAttribute("href") ||
+        document.querySelector("link[rel='shortcut icon']")?.getAttribute("href");
+      const firstImg = document.querySelector("img")?.getAttribute("src");
+
+      const absoluteUrl = (imgUrl?: string | null): string | null => {
+        if (!imgUrl) return null;
+        return imgUrl.startsWith("http")
+          ? imgUrl
+          : new URL(imgUrl, window.location.origin).href;
+      };
+
+      return {
+        title,
+        content: bodyText,
+        thumbnail:
+          absoluteUrl(ogImage) ||
+          absoluteUrl(favicon) ||
+          absoluteUrl(firstImg) ||
+          null,
+      };
+    });
+
+    return metadata;
+  } finally {
+    await browser.close();
+  }
+};
+
+// Title, text and thumbnail for a URL, picking the fetcher by site
+export const fetchLinkMetadata = async (url: string) => {
+  if (url.includes("twitter.com") || url.includes("x.com")) {
+    return fetchTwitterMetadata(url);
+  } else if (url.includes("https://www.youtube.com/watch") || url.includes("youtu.be")) {
+    return fetchYouTubeMetadata(url);
+  } else {
+    return fetchWebsiteMetadata(url);
+  }
+};
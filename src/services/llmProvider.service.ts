@@ -0,0 +1,247 @@
+import axios from "axios";
+import { Readable } from "stream";
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import prisma from "../prisma.js";
+
+// Type definitions
+export interface LlmRequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface LlmProvider {
+  name: string;
+  model: string;
+  complete(prompt: string, options?: LlmRequestOptions): Promise<string>;
+  stream(prompt: string, options?: LlmRequestOptions): AsyncIterable<string>;
+}
+
+export type LlmProviderName = "gemini" | "openai-compatible" | "fake";
+
+export interface LlmSettings {
+  provider: LlmProviderName;
+  model: string;
+}
+
+// Constants
+export const LLM_PROVIDER_NAMES: LlmProviderName[] = ["gemini", "openai-compatible", "fake"];
+const DEFAULT_LLM_MODELS: Record<LlmProviderName, string> = {
+  "gemini": "gemini-1.5-flash",
+  "openai-compatible": "llama3.1",
+  "fake": "scripted"
+};
+const DEFAULT_OPENAI_BASE_URL = "http://localhost:11434/v1"; // Ollama
+const OPENAI_TIMEOUT_MS = 120000;
+const FAKE_DEFAULT_REPLY = "This is a scripted answer based on your sources [1].";
+
+// Gemini models through the Google AI SDK
+const createGeminiLlmProvider = (model: string): LlmProvider => {
+  if (!process.env.GEMINI_API_KEY) {
+    throw new Error('GEMINI_API_KEY environment variable is not set');
+  }
+
+  const client = new GoogleGenerativeAI(process.env.GEMINI_API_KEY).getGenerativeModel({ model });
+
+  return {
+    name: "gemini",
+    model,
+    async complete(prompt, options = {}) {
+      const result = await client.generateContent(prompt, { signal: options.signal });
+      // Replies can come back split over several parts
+      const text = result?.response?.candidates?.[0]?.content?.parts
+        ?.map(part => part.text ?? "")
+        .join("");
+
+      if (!text) {
+        throw new Error("No AI response generated");
+      }
+      return text;
+    },
+    async *stream(prompt, options = {}) {
+      const { stream } = await client.generateContentStream(prompt, { signal: options.signal });
+      for await (const chunk of stream) {
+        const text = chunk.text();
+        if (text) yield text;
+      }
+    }
+  };
+};
+
+// `data:` payloads of a Server-Sent Events response body
+async function* readEventData(body: Readable): AsyncGenerator<string> {
+  let buffer = "";
+
+  for await (const chunk of body) {
+    buffer += chunk.toString();
+
+    let newline: number;
+    while ((newline = buffer.indexOf("\n")) !== -1) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (line.startsWith("data:")) yield line.slice(5).trim();
+    }
+  }
+}
+
+// Any server speaking the OpenAI /chat/completions API: OpenAI itself,
+// Ollama, llama.cpp, vLLM, LM Studio...
+const createOpenAICompatibleLlmProvider = (model: string): LlmProvider => {
+  const baseUrl = (process.env.LLM_BASE_URL || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, "");
+  const headers = process.env.LLM_API_KEY
+    ? { Authorization: `Bearer ${process.env.LLM_API_KEY}` }
+    : undefined;
+
+  const requestBody = (prompt: string, stream: boolean) => ({
+    model,
+    stream,
+    messages: [{ role: "user", content: prompt }]
+  });
+
+  return {
+    name: "openai-compatible",
+    model,
+    async complete(prompt, options = {}) {
+      const response = await axios.post<{ choices: { message: { content: string } }[] }>(
+        `${baseUrl}/chat/completions`,
+        requestBody(prompt, false),
+        { headers, timeout: OPENAI_TIMEOUT_MS, signal: options.signal }
+      );
+
+      const text = response.data?.choices?.[0]?.message?.content;
+      if (!text) {
+        throw new Error("No AI response generated");
+      }
+      return text;
+    },
+    async *stream(prompt, options = {}) {
+      const response = await axios.post<Readable>(
+        `${baseUrl}/chat/completions`,
+        requestBody(prompt, true),
+        { headers, timeout: OPENAI_TIMEOUT_MS, signal: options.signal, responseType: "stream" }
+      );
+
+      for await (const data of readEventData(response.data)) {
+        if (data === "[DONE]") return;
+
+        const text = JSON.parse(data)?.choices?.[0]?.delta?.content;
+        if (text) yield text;
+      }
+    }
+  };
+};
+
+// Scripted provider for tests and offline development. Replies are taken in
+// order from the script and the last one repeats once it runs out.
+export const createFakeLlmProvider = (script: string[] = [], model: string = DEFAULT_LLM_MODELS.fake): LlmProvider => {
+  let turn = 0;
+  const nextReply = () => script.length === 0
+    ? FAKE_DEFAULT_REPLY
+    : script[Math.min(turn++, script.length - 1)];
+
+  return {
+    name: "fake",
+    model,
+    async complete() {
+      return nextReply();
+    },
+    async *stream(_prompt, options = {}) {
+      for (const piece of nextReply().split(/(?<= )/)) {
+        if (options.signal?.aborted) return;
+        yield piece;
+      }
+    }
+  };
+};
+
+// LLM_FAKE_SCRIPT is a JSON array of replies, or a single plain-text reply
+const readFakeScript = (): string[] => {
+  const script = process.env.LLM_FAKE_SCRIPT;
+  if (!script) return [];
+
+  try {
+    const parsed = JSON.parse(script);
+    return Array.isArray(parsed) ? parsed.map(String) : [String(parsed)];
+  } catch {
+    return [script];
+  }
+};
+
+const PROVIDER_FACTORIES: Record<LlmProviderName, (model: string) => LlmProvider> = {
+  "gemini": createGeminiLlmProvider,
+  "openai-compatible": createOpenAICompatibleLlmProvider,
+  "fake": (model) => createFakeLlmProvider(readFakeScript(), model)
+};
+
+export const isLlmProviderName = (value: unknown): value is LlmProviderName =>
+  typeof value === 'string' && LLM_PROVIDER_NAMES.includes(value as LlmProviderName);
+
+// Deployment-wide choice from LLM_PROVIDER (default gemini) and LLM_MODEL
+export const getDeploymentLlmSettings = (): LlmSettings => {
+  const name = (process.env.LLM_PROVIDER || "gemini").toLowerCase();
+  if (!isLlmProviderName(name)) {
+    throw new Error(`Unknown LLM_PROVIDER "${name}". Use one of: ${LLM_PROVIDER_NAMES.join(', ')}`);
+  }
+
+  return { provider: name, model: process.env.LLM_MODEL || DEFAULT_LLM_MODELS[name] };
+};
+
+// Providers this deployment can actually reach. Users may only pick from these;
+// the fake one is never offered in production.
+export const getAvailableLlmProviders = (): LlmProviderName[] => {
+  const { provider } = getDeploymentLlmSettings();
+
+  return LLM_PROVIDER_NAMES.filter(name => {
+    if (name === provider) return true;
+    if (name === "gemini") return Boolean(process.env.GEMINI_API_KEY);
+    if (name === "openai-compatible") return Boolean(process.env.LLM_BASE_URL);
+    return process.env.NODE_ENV !== 'production';
+  });
+};
+
+// Whether the deployment default can generate text at all
+export const isLlmConfigured = (): boolean => {
+  try {
+    const { provider } = getDeploymentLlmSettings();
+    return provider !== "gemini" || Boolean(process.env.GEMINI_API_KEY);
+  } catch {
+    return false;
+  }
+};
+
+export const getDefaultLlmModel = (provider: LlmProviderName): string => DEFAULT_LLM_MODELS[provider];
+
+const providerCache = new Map<string, LlmProvider>();
+
+// Provider for a request: the user's own choice when they've made one,
+// otherwise the deployment default
+export const getLlmProvider = async (userId?: string): Promise<LlmProvider> => {
+  const settings = getDeploymentLlmSettings();
+
+  if (userId) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { llmProvider: true, llmModel: true }
+    });
+
+    if (user && isLlmProviderName(user.llmProvider) && getAvailableLlmProviders().includes(user.llmProvider)) {
+      settings.model = user.llmModel || DEFAULT_LLM_MODELS[user.llmProvider];
+      settings.provider = user.llmProvider;
+    } else if (user?.llmModel && !user.llmProvider) {
+      settings.model = user.llmModel;
+    }
+  }
+
+  // The fake provider keeps its place in the script, so every caller gets
+  // a fresh one starting from the first reply
+  if (settings.provider === "fake") {
+    return PROVIDER_FACTORIES.fake(settings.model);
+  }
+
+  const key = `${settings.provider}:${settings.model}`;
+  let provider = providerCache.get(key);
+  if (!provider) {
+    provider = PROVIDER_FACTORIES[settings.provider](settings.model);
+    providerCache.set(key, provider);
+  }
+
+  return provider;
+};
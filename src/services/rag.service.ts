@@ -0,0 +1,168 @@
+// Type definitions
+export interface RetrievedPassage {
+  chunkIndex?: number;
+  text: string;
+  startOffset: number;
+  endOffset: number;
+  pageNumber?: number | null;
+}
+
+export interface RetrievedItem {
+  id: string;
+  title: string | null;
+  type: string;
+  url?: string | null;
+  content: string | null;
+  matched_chunks?: RetrievedPassage[] | null;
+}
+
+export interface ContextSource {
+  n: number;
+  contentId: string;
+  title: string | null;
+  type: string;
+  url: string | null;
+  startOffset: number;
+  endOffset: number;
+  pageNumber: number | null;
+  excerpt: string;
+}
+
+export interface Citation extends Omit<ContextSource, "excerpt"> {}
+
+export interface ContextOptions {
+  maxSources?: number;
+  tokenBudget?: number;
+}
+
+// Constants
+const DEFAULT_MAX_SOURCES = 8;
+const DEFAULT_TOKEN_BUDGET = parseInt(process.env.RAG_CONTEXT_TOKEN_BUDGET || "4000") || 4000;
+const CHARS_PER_TOKEN = 4; // Rough estimate, good enough for budgeting
+const MIN_EXCERPT_CHARS = 200;
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+// Passages worth quoting from one result: its best chunks when it has them,
+// otherwise the start of its body
+const passagesFor = (item: RetrievedItem): RetrievedPassage[] => {
+  if (item.matched_chunks && item.matched_chunks.length > 0) {
+    return item.matched_chunks;
+  }
+
+  const content = item.content?.trim() || "";
+  if (content.length === 0) return [];
+
+  return [{ text: content, startOffset: 0, endOffset: content.length, pageNumber: null }];
+};
+
+// Picks numbered passages from the ranked results until the token budget runs
+// out. Every result gets a fair share first so one long document can't crowd
+// out the rest; leftover budget then goes to further passages in rank order.
+export const buildContextSources = (
+  results: RetrievedItem[],
+  options: ContextOptions = {}
+): ContextSource[] => {
+  const { maxSources = DEFAULT_MAX_SOURCES, tokenBudget = DEFAULT_TOKEN_BUDGET } = options;
+
+  const candidates = results
+    .map(item => ({ item, passages: passagesFor(item) }))
+    .filter(candidate => candidate.passages.length > 0);
+
+  if (candidates.length === 0) return [];
+
+  let remainingChars = tokenBudget * CHARS_PER_TOKEN;
+  const perResultChars = Math.max(
+    MIN_EXCERPT_CHARS,
+    Math.floor(remainingChars / Math.min(candidates.length, maxSources))
+  );
+
+  const sources: ContextSource[] = [];
+
+  const addPassage = (item: RetrievedItem, passage: RetrievedPassage, maxChars: number) => {
+    const length = Math.min(passage.text.length, maxChars, remainingChars);
+    if (length < MIN_EXCERPT_CHARS && length < passage.text.length) return;
+
+    const excerpt = passage.text.slice(0, length).trim();
+    sources.push({
+      n: sources.length + 1,
+      contentId: item.id,
+      title: item.title,
+      type: item.type,
+      url: item.url ?? null,
+      startOffset: passage.startOffset,
+      endOffset: passage.startOffset + length,
+      pageNumber: passage.pageNumber ?? null,
+      excerpt: length < passage.text.length ? `${excerpt}...` : excerpt
+    });
+    remainingChars -= length;
+  };
+
+  // First pass: best passage of each result
+  for (const { item, passages } of candidates) {
+    if (sources.length >= maxSources || remainingChars <= 0) break;
+    addPassage(item, passages[0], perResultChars);
+  }
+
+  // Second pass: further chunks while budget and slots remain
+  for (const { item, passages } of candidates) {
+    for (const passage of passages.slice(1)) {
+      if (sources.length >= maxSources || remainingChars < MIN_EXCERPT_CHARS) break;
+      addPassage(item, passage, perResultChars);
+    }
+  }
+
+  return sources;
+};
+
+const formatSources = (sources: ContextSource[]): string =>
+  sources
+    .map(source => {
+      const label = [
+        source.title || "Untitled",
+        source.type.toLowerCase(),
+        source.pageNumber ? `page ${source.pageNumber}` : null
+      ].filter(Boolean).join(", ");
+      return `[${source.n}] (${label})\n${source.excerpt}`;
+    })
+    .join("\n\n");
+
+// Prompt asking for an answer grounded in the numbered sources. The optional
+// history is the transcript of earlier turns in a chat.
+export const buildAnswerPrompt = (
+  question: string,
+  sources: ContextSource[],
+  history?: string
+): string => `
+You are answering a question using excerpts from the user's own notes, documents and saved links.
+
+Rules:
+- Only use information from the numbered sources below. If they don't contain enough information to answer, say so.
+- Cite every claim with the number of the source it comes from, in square brackets, e.g. [1] or [2][3].
+- If sources disagree or contradict each other, say so explicitly and cite each side.
+- Answer clearly and concisely.
+${history ? `\nConversation so far:\n${history}\n` : ""}
+Sources:
+${formatSources(sources)}
+
+Question: ${question}
+
+Answer:
+`.trim();
+
+// Sources actually cited in the answer, in order of first citation
+export const extractCitations = (answer: string, sources: ContextSource[]): Citation[] => {
+  const cited: number[] = [];
+
+  for (const match of answer.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+    for (const value of match[1].split(",")) {
+      const n = parseInt(value.trim());
+      if (!cited.includes(n)) cited.push(n);
+    }
+  }
+
+  return cited
+    .map(n => sources.find(source => source.n === n))
+    .filter((source): source is ContextSource => source !== undefined)
+    .map(({ excerpt, ...citation }) => citation);
+};
@@ -0,0 +1,275 @@
+import { EmbeddingBackfill } from "@prisma/client";
+import prisma from "../prisma.js";
+import { EMBEDDING_CONFIG, generateEmbedding, generateEmbeddingsBatch } from "./embedding.service.js";
+import { getEmbeddingSource } from "./embeddingProvider.service.js";
+import { buildEmbeddingText, updateContentEmbedding } from "./content.service.js";
+
+// Type definitions
+export interface BackfillOptions {
+  batchSize?: number;
+  delayMs?: number;
+  restart?: boolean;
+  onProgress?: (run: EmbeddingBackfill) => void;
+}
+
+export interface StaleEmbeddingCounts {
+  content: number;
+  chunks: number;
+  total: number;
+}
+
+interface StaleRow {
+  id: string;
+  text: string;
+}
+
+interface BatchOutcome {
+  processed: number;
+  skipped: number;
+  failed: number;
+  lastError: string | null;
+}
+
+// Another run for the same model is already going
+export class BackfillInProgressError extends Error {
+  run: EmbeddingBackfill;
+
+  constructor(run: EmbeddingBackfill) {
+    super("A re-embedding run for this model is already in progress");
+    this.name = "BackfillInProgressError";
+    this.run = run;
+  }
+}
+
+// Constants
+export const DEFAULT_BATCH_SIZE = parseInt(process.env.REEMBED_BATCH_SIZE || "50") || 50;
+export const DEFAULT_DELAY_MS = parseInt(process.env.REEMBED_DELAY_MS || "1000") || 1000;
+// A RUNNING backfill that hasn't saved progress for this long was interrupted
+const STALE_RUN_MS = 5 * 60 * 1000;
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+// Rows are stale when they have no vector or one from another provider/model
+export const countStaleEmbeddings = async (): Promise<StaleEmbeddingCounts> => {
+  const { provider, model } = getEmbeddingSource();
+
+  const [counts] = await prisma.$queryRaw<{ content: bigint; chunks: bigint }[]>`
+    SELECT
+      (SELECT COUNT(*) FROM "Content"
+        WHERE status = 'READY'
+          AND (embedding IS NULL OR "embeddingProvider" IS DISTINCT FROM ${provider} OR "embeddingModel" IS DISTINCT FROM ${model})
+      ) AS content,
+      (SELECT COUNT(*) FROM "ContentChunk"
+        WHERE embedding IS NULL OR "embeddingProvider" IS DISTINCT FROM ${provider} OR "embeddingModel" IS DISTINCT FROM ${model}
+      ) AS chunks;
+  `;
+
+  const content = Number(counts.content);
+  const chunks = Number(counts.chunks);
+  return { content, chunks, total: content + chunks };
+};
+
+// Most recent run for the current provider/model
+export const getLatestBackfill = async (): Promise<EmbeddingBackfill | null> => {
+  const { provider, model } = getEmbeddingSource();
+  return prisma.embeddingBackfill.findFirst({
+    where: { provider, model },
+    orderBy: { startedAt: "desc" }
+  });
+};
+
+// Picks up an unfinished run for the current model, or starts a new one.
+// Throws BackfillInProgressError when another process is still working on it.
+export const startBackfill = async (restart = false): Promise<EmbeddingBackfill> => {
+  const { provider, model } = getEmbeddingSource();
+
+  const unfinished = await prisma.embeddingBackfill.findFirst({
+    where: { provider, model, status: { not: "COMPLETED" } },
+    orderBy: { startedAt: "desc" }
+  });
+
+  if (unfinished?.status === "RUNNING" && unfinished.updatedAt.getTime() > Date.now() - STALE_RUN_MS) {
+    throw new BackfillInProgressError(unfinished);
+  }
+
+  if (unfinished && !restart) {
+    return prisma.embeddingBackfill.update({
+      where: { id: unfinished.id },
+      data: { status: "RUNNING", lastError: null, finishedAt: null }
+    });
+  }
+
+  if (unfinished && unfinished.status !== "CANCELLED") {
+    await prisma.embeddingBackfill.update({
+      where: { id: unfinished.id },
+      data: { status: "CANCELLED", finishedAt: new Date() }
+    });
+  }
+
+  const { total } = await countStaleEmbeddings();
+  return prisma.embeddingBackfill.create({
+    data: { provider, model, total }
+  });
+};
+
+// Stops a running backfill after its current batch
+export const cancelBackfill = async (id: string): Promise<EmbeddingBackfill | null> => {
+  const { count } = await prisma.embeddingBackfill.updateMany({
+    where: { id, status: "RUNNING" },
+    data: { status: "CANCELLED", finishedAt: new Date() }
+  });
+
+  if (count === 0) return null;
+  return prisma.embeddingBackfill.findUnique({ where: { id } });
+};
+
+const loadStaleContent = async (cursor: string | null, limit: number): Promise<StaleRow[]> => {
+  const { provider, model } = getEmbeddingSource();
+
+  const rows = await prisma.$queryRaw<{ id: string; type: string; title: string | null; content: string | null; createdAt: Date }[]>`
+    SELECT id, type, title, content, "createdAt"
+    FROM "Content"
+    WHERE status = 'READY'
+      AND (embedding IS NULL OR "embeddingProvider" IS DISTINCT FROM ${provider} OR "embeddingModel" IS DISTINCT FROM ${model})
+      AND (${cursor}::text IS NULL OR id > ${cursor})
+    ORDER BY id
+    LIMIT ${limit};
+  `;
+
+  return rows.map(row => ({ id: row.id, text: buildEmbeddingText(row) }));
+};
+
+const loadStaleChunks = async (cursor: string | null, limit: number): Promise<StaleRow[]> => {
+  const { provider, model } = getEmbeddingSource();
+
+  return prisma.$queryRaw<StaleRow[]>`
+    SELECT id, "text"
+    FROM "ContentChunk"
+    WHERE (embedding IS NULL OR "embeddingProvider" IS DISTINCT FROM ${provider} OR "embeddingModel" IS DISTINCT FROM ${model})
+      AND (${cursor}::text IS NULL OR id > ${cursor})
+    ORDER BY id
+    LIMIT ${limit};
+  `;
+};
+
+const saveChunkEmbedding = async (id: string, embedding: number[]) => {
+  const { provider, model } = getEmbeddingSource();
+  await prisma.$executeRaw`
+    UPDATE "ContentChunk"
+    SET embedding = ${embedding}::vector, "embeddingProvider" = ${provider}, "embeddingModel" = ${model}
+    WHERE id = ${id};
+  `;
+};
+
+// Embeds one batch with a single batch call, falling back to one call per row
+// so a single bad text doesn't hold up the rest. Throws when nothing in the
+// batch could be embedded, since that points at the provider rather than the data.
+const embedBatch = async (
+  rows: StaleRow[],
+  save: (id: string, embedding: number[]) => Promise<unknown>
+): Promise<BatchOutcome> => {
+  const outcome: BatchOutcome = { processed: 0, skipped: 0, failed: 0, lastError: null };
+
+  // Too short to embed; these stay as they are
+  const embeddable = rows.filter(row => row.text.trim().length >= EMBEDDING_CONFIG.MIN_TEXT_LENGTH);
+  outcome.skipped = rows.length - embeddable.length;
+  if (embeddable.length === 0) return outcome;
+
+  try {
+    const embeddings = await generateEmbeddingsBatch(embeddable.map(row => row.text));
+    for (let i = 0; i < embeddable.length; i++) {
+      await save(embeddable[i].id, embeddings[i]);
+    }
+    outcome.processed = embeddable.length;
+    return outcome;
+  } catch (error) {
+    console.warn("Batch re-embedding failed, retrying rows one at a time:", error instanceof Error ? error.message : error);
+  }
+
+  for (const row of embeddable) {
+    try {
+      await save(row.id, await generateEmbedding(row.text));
+      outcome.processed++;
+    } catch (error) {
+      outcome.failed++;
+      outcome.lastError = `${row.id}: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+
+  if (outcome.processed === 0) {
+    throw new Error(outcome.lastError ?? "Embedding failed for the whole batch");
+  }
+  return outcome;
+};
+
+// Re-embeds stale content rows, then stale chunks, in throttled batches. Progress
+// and the id cursor are saved after every batch, so an interrupted run resumes
+// from where it stopped. Returns the run as it ended.
+export const runBackfill = async (
+  run: EmbeddingBackfill,
+  options: BackfillOptions = {}
+): Promise<EmbeddingBackfill> => {
+  const {
+    batchSize = DEFAULT_BATCH_SIZE,
+    delayMs = DEFAULT_DELAY_MS,
+    onProgress
+  } = options;
+
+  let current = run;
+
+  try {
+    while (current.status === "RUNNING") {
+      const isContent = current.phase === "CONTENT";
+      const cursor = isContent ? current.contentCursor : current.chunkCursor;
+      const rows = isContent
+        ? await loadStaleContent(cursor, batchSize)
+        : await loadStaleChunks(cursor, batchSize);
+
+      if (rows.length === 0) {
+        current = await prisma.embeddingBackfill.update({
+          where: { id: current.id },
+          data: isContent
+            ? { phase: "CHUNKS" }
+            : { status: "COMPLETED", finishedAt: new Date() }
+        });
+        continue;
+      }
+
+      const outcome = await embedBatch(
+        rows,
+        isContent ? updateContentEmbedding : saveChunkEmbedding
+      );
+      const nextCursor = rows[rows.length - 1].id;
+
+      // The returned status also shows whether someone cancelled the run meanwhile
+      current = await prisma.embeddingBackfill.update({
+        where: { id: current.id },
+        data: {
+          ...(isContent ? { contentCursor: nextCursor } : { chunkCursor: nextCursor }),
+          processed: { increment: outcome.processed },
+          skipped: { increment: outcome.skipped },
+          failed: { increment: outcome.failed },
+          ...(outcome.lastError && { lastError: outcome.lastError })
+        }
+      });
+      onProgress?.(current);
+
+      if (current.status === "RUNNING" && delayMs > 0) {
+        await sleep(delayMs);
+      }
+    }
+  } catch (error) {
+    console.error(`Re-embedding run ${current.id} failed:`, error);
+    current = await prisma.embeddingBackfill.update({
+      where: { id: current.id },
+      data: {
+        status: "FAILED",
+        lastError: error instanceof Error ? error.message : String(error),
+        finishedAt: new Date()
+      }
+    });
+  }
+
+  onProgress?.(current);
+  return current;
+};
@@ -0,0 +1,172 @@
+import { Prisma } from "@prisma/client";
+
+// Type definitions
+export type DiffOperation = "equal" | "added" | "removed";
+
+export interface DiffLine {
+  op: DiffOperation;
+  text: string;
+  oldLine?: number;
+  newLine?: number;
+}
+
+// Constants
+// Interactive transactions that snapshot many rows need more than Prisma's 5s default
+export const BULK_REVISION_TIMEOUT_MS = 60 * 1000;
+// Upper bound on the LCS table (old lines x new lines) before falling back
+// to a plain "replace everything in between" diff
+const MAX_DIFF_CELLS = 4_000_000;
+
+// Holds the content row until the transaction ends, so concurrent writers
+// of the same item take their turns reading and numbering its history
+const lockContentRow = async (tx: Prisma.TransactionClient, contentId: string) => {
+  await tx.$queryRaw`
+    SELECT id FROM "Content"
+    WHERE id = ${contentId}
+    FOR UPDATE;
+  `;
+};
+
+// Next version number for a content item's history
+const nextVersion = async (tx: Prisma.TransactionClient, contentId: string): Promise<number> => {
+  await lockContentRow(tx, contentId);
+  const latest = await tx.contentRevision.findFirst({
+    where: { contentId },
+    orderBy: { version: "desc" },
+    select: { version: true }
+  });
+  return (latest?.version ?? 0) + 1;
+};
+
+// Stores the current state of a content row as a new revision
+export const snapshotContent = async (tx: Prisma.TransactionClient, contentId: string) => {
+  const current = await tx.content.findUnique({
+    where: { id: contentId },
+    select: { title: true, content: true, tags: true, metadata: true }
+  });
+
+  if (!current) {
+    return null;
+  }
+
+  return tx.contentRevision.create({
+    data: {
+      contentId,
+      version: await nextVersion(tx, contentId),
+      title: current.title,
+      content: current.content,
+      tags: current.tags,
+      metadata: current.metadata ?? Prisma.JsonNull
+    },
+    select: { id: true, version: true, createdAt: true }
+  });
+};
+
+// Rows created before revision history existed have no snapshots yet;
+// capture their original state before the first change overwrites it
+export const ensureBaselineRevision = async (tx: Prisma.TransactionClient, contentId: string) => {
+  await lockContentRow(tx, contentId);
+  const existing = await tx.contentRevision.count({ where: { contentId } });
+  if (existing === 0) {
+    await snapshotContent(tx, contentId);
+  }
+};
+
+// History for a statement that changes many rows at once (tag rename,
+// bulk tagging): each row gets its baseline before the change and a
+// snapshot after it, as updateContentRecord does for a single row
+export const withRevisions = async <T>(
+  tx: Prisma.TransactionClient,
+  contentIds: string[],
+  change: () => Promise<T>
+): Promise<T> => {
+  for (const id of contentIds) {
+    await ensureBaselineRevision(tx, id);
+  }
+
+  const result = await change();
+
+  for (const id of contentIds) {
+    await snapshotContent(tx, id);
+  }
+  return result;
+};
+
+const splitLines = (text: string | null): string[] =>
+  text === null || text.length === 0 ? [] : text.split(/\r?\n/);
+
+// Line-level diff based on the longest common subsequence
+export const diffLines = (oldText: string | null, newText: string | null): DiffLine[] => {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+  const result: DiffLine[] = [];
+
+  // Common prefix and suffix don't need the LCS table
+  let prefix = 0;
+  while (
+    prefix < oldLines.length &&
+    prefix < newLines.length &&
+    oldLines[prefix] === newLines[prefix]
+  ) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  for (let i = 0; i < prefix; i++) {
+    result.push({ op: "equal", text: oldLines[i], oldLine: i + 1, newLine: i + 1 });
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+  const rows = oldMiddle.length;
+  const cols = newMiddle.length;
+
+  if (rows * cols > MAX_DIFF_CELLS) {
+    oldMiddle.forEach((text, i) => result.push({ op: "removed", text, oldLine: prefix + i + 1 }));
+    newMiddle.forEach((text, j) => result.push({ op: "added", text, newLine: prefix + j + 1 }));
+  } else {
+    // lcs[i][j] = LCS length of oldMiddle[i..] and newMiddle[j..]
+    const lcs = new Uint32Array((rows + 1) * (cols + 1));
+    const at = (i: number, j: number) => i * (cols + 1) + j;
+
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = cols - 1; j >= 0; j--) {
+        lcs[at(i, j)] = oldMiddle[i] === newMiddle[j]
+          ? lcs[at(i + 1, j + 1)] + 1
+          : Math.max(lcs[at(i + 1, j)], lcs[at(i, j + 1)]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < rows || j < cols) {
+      if (i < rows && j < cols && oldMiddle[i] === newMiddle[j]) {
+        result.push({ op: "equal", text: oldMiddle[i], oldLine: prefix + i + 1, newLine: prefix + j + 1 });
+        i++;
+        j++;
+      } else if (i < rows && (j === cols || lcs[at(i + 1, j)] >= lcs[at(i, j + 1)])) {
+        result.push({ op: "removed", text: oldMiddle[i], oldLine: prefix + i + 1 });
+        i++;
+      } else {
+        result.push({ op: "added", text: newMiddle[j], newLine: prefix + j + 1 });
+        j++;
+      }
+    }
+  }
+
+  for (let k = 0; k < suffix; k++) {
+    const oldIndex = oldLines.length - suffix + k;
+    const newIndex = newLines.length - suffix + k;
+    result.push({ op: "equal", text: oldLines[oldIndex], oldLine: oldIndex + 1, newLine: newIndex + 1 });
+  }
+
+  return result;
+};
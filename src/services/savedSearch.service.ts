@@ -0,0 +1,158 @@
+import { SavedSearch } from "@prisma/client";
+import prisma from "../prisma.js";
+import { generateEmbedding } from "./embedding.service.js";
+import { parseTagFilter, TagMatchMode } from "./content.service.js";
+import { getCollectionScope } from "./collection.service.js";
+import { runSemanticSearch, SearchMode } from "./search.service.js";
+import { parseSearchQuery } from "./searchQuery.service.js";
+
+// Type definitions
+// Search fields stored with a saved search besides its query and threshold
+export interface SavedSearchFilters {
+  contentTypes?: string[];
+  tags?: string[];
+  tagMode?: TagMatchMode;
+  collectionId?: string;
+  mode?: SearchMode;
+  timezone?: string;
+}
+
+export interface AlertCheckSummary {
+  checked: number;
+  notified: number;
+  failed: number;
+}
+
+// Constants
+// Most new matches recorded per saved search and check
+const MAX_ALERT_MATCHES = 20;
+// Items are embedded in the background after they're created, so each check
+// looks a little further back than the previous one. Notifications are
+// unique per item, so the overlap never repeats an alert.
+const ALERT_LOOKBACK_MS = 60 * 60 * 1000;
+const BATCH_SIZE = 50;
+
+// The body fields searchWithAI takes for a saved search
+export const savedSearchParams = (savedSearch: SavedSearch) => {
+  const filters = (savedSearch.filters ?? {}) as SavedSearchFilters;
+  return {
+    query: savedSearch.query,
+    similarityThreshold: savedSearch.threshold,
+    ...filters
+  };
+};
+
+// Runs the saved search over content created since it was last checked and
+// records a notification for each new match. Returns how many were recorded.
+export const checkSavedSearch = async (savedSearch: SavedSearch): Promise<number> => {
+  const checkedAt = new Date();
+  const { contentTypes, tags, tagMode, collectionId, mode = "hybrid", timezone = "UTC" } =
+    (savedSearch.filters ?? {}) as SavedSearchFilters;
+
+  const parsed = parseSearchQuery(savedSearch.query, { referenceDate: checkedAt, timezone });
+  if (parsed.errors.length > 0) {
+    throw new Error(`Saved search ${savedSearch.id} has an invalid query: ${parsed.errors.join("; ")}`);
+  }
+
+  // Types in the query narrow the saved ones, as in searchWithAI
+  let effectiveTypes = contentTypes;
+  if (parsed.contentTypes) {
+    effectiveTypes = contentTypes && contentTypes.length > 0
+      ? parsed.contentTypes.filter(type => contentTypes.includes(type))
+      : parsed.contentTypes;
+  }
+
+  const { filter: tagFilter } = parseTagFilter(tags, tagMode);
+
+  let collectionIds: string[] | null = null;
+  if (collectionId) {
+    collectionIds = await getCollectionScope(savedSearch.userId, collectionId);
+    if (!collectionIds) {
+      throw new Error(`Collection ${collectionId} of saved search ${savedSearch.id} no longer exists`);
+    }
+  }
+
+  // Nothing from before the search was saved counts as new
+  const windowStart = new Date(Math.max(
+    savedSearch.lastCheckedAt.getTime() - ALERT_LOOKBACK_MS,
+    savedSearch.createdAt.getTime(),
+    parsed.dateRange?.start?.getTime() ?? 0
+  ));
+
+  let matches: { id: string; total_score?: number }[] = [];
+  if (!effectiveTypes || effectiveTypes.length > 0) {
+    const embedding = mode !== "keyword" && parsed.text
+      ? await generateEmbedding(parsed.text)
+      : undefined;
+
+    matches = await runSemanticSearch({
+      userId: savedSearch.userId,
+      query: parsed.text,
+      keywordQuery: parsed.keywordQuery,
+      embedding,
+      mode,
+      threshold: savedSearch.threshold,
+      limit: MAX_ALERT_MATCHES,
+      contentTypes: effectiveTypes,
+      tagFilter,
+      requiredTags: parsed.tags,
+      excludedTags: parsed.excludedTags,
+      phrases: parsed.phrases,
+      excludedTerms: parsed.excludedTerms,
+      domains: parsed.domains,
+      excludedDomains: parsed.excludedDomains,
+      collectionIds,
+      dateRange: { start: windowStart, end: parsed.dateRange?.end }
+    });
+  }
+
+  const [{ count }] = await prisma.$transaction([
+    prisma.savedSearchNotification.createMany({
+      data: matches.map(match => ({
+        savedSearchId: savedSearch.id,
+        userId: savedSearch.userId,
+        contentId: match.id,
+        score: match.total_score ?? null
+      })),
+      skipDuplicates: true
+    }),
+    prisma.savedSearch.update({
+      where: { id: savedSearch.id },
+      data: { lastCheckedAt: checkedAt }
+    })
+  ]);
+
+  return count;
+};
+
+// Checks every saved search with alerts on. A search that fails keeps its
+// lastCheckedAt, so the next check covers the missed window too.
+export const checkSavedSearchAlerts = async (): Promise<AlertCheckSummary> => {
+  const summary: AlertCheckSummary = { checked: 0, notified: 0, failed: 0 };
+  let cursor: string | undefined;
+
+  while (true) {
+    const batch = await prisma.savedSearch.findMany({
+      where: { alertsEnabled: true, ...(cursor && { id: { gt: cursor } }) },
+      orderBy: { id: "asc" },
+      take: BATCH_SIZE
+    });
+
+    if (batch.length === 0) break;
+
+    for (const savedSearch of batch) {
+      try {
+        summary.notified += await checkSavedSearch(savedSearch);
+        summary.checked++;
+      } catch (error) {
+        summary.failed++;
+        console.error(`Error checking saved search ${savedSearch.id}:`, error);
+      }
+    }
+
+    cursor = batch[batch.length - 1].id;
+    if (batch.length < BATCH_SIZE) break;
+  }
+
+  return summary;
+};
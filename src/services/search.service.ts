@@ -0,0 +1,526 @@
+import prisma from "../prisma.js";
+import { TagFilter } from "./content.service.js";
+import { getEmbeddingSource } from "./embeddingProvider.service.js";
+
+// Type definitions
+export interface MatchedChunk {
+  chunkIndex: number;
+  text: string;
+  startOffset: number;
+  endOffset: number;
+  pageNumber: number | null;
+  similarity: number;
+}
+
+export interface SearchResult {
+  id: string;
+  title: string;
+  content: string;
+  createdAt: Date;
+  type: string;
+  tags: string[];
+  url?: string;
+  metadata?: any;
+  matched_chunks?: MatchedChunk[] | null;
+  weighted_similarity?: number;
+  semantic_score?: number | null;
+  keyword_score?: number | null;
+  semantic_rank?: number | null;
+  keyword_rank?: number | null;
+  total_score?: number;
+}
+
+// semantic: vector similarity only; keyword: Postgres full-text search only;
+// hybrid: both lists merged with reciprocal rank fusion
+export type SearchMode = "semantic" | "keyword" | "hybrid";
+
+export interface SemanticSearchOptions {
+  userId: string;
+  query: string;
+  embedding?: number[]; // Not needed in keyword mode or without query text
+  mode?: SearchMode;
+  keywordQuery?: string; // websearch_to_tsquery input, defaults to `query`
+  threshold: number;
+  limit: number;
+  contentTypes?: string[];
+  tagFilter?: TagFilter | null;
+  requiredTags?: string[];
+  excludedTags?: string[];
+  phrases?: string[];
+  excludedTerms?: string[];
+  domains?: string[];
+  excludedDomains?: string[];
+  collectionIds?: string[] | null;
+  dateRange?: {
+    start?: Date;
+    end?: Date;
+  };
+}
+
+// Facets are counted over everything the search matches, not just the page
+// of results: semantic matches at or above the threshold, keyword matches,
+// or (for title search) titles containing the query.
+export interface FacetCountOptions extends Omit<SemanticSearchOptions, "limit"> {
+  matchTitle?: boolean;
+  excludedTitleTerms?: string[];
+  timezone?: string; // Months are counted in this IANA zone
+}
+
+// `token` is the query operator that narrows the search to the bucket
+export interface FacetBucket {
+  value: string;
+  count: number;
+  token: string;
+}
+
+export interface SearchFacets {
+  total: number;
+  type: FacetBucket[];
+  tag: FacetBucket[];
+  month: FacetBucket[];
+  domain: FacetBucket[];
+}
+
+// Constants
+// Number of best-matching chunks returned with each search result
+const MATCHED_CHUNKS_PER_RESULT = 3;
+export const SEARCH_MODES: SearchMode[] = ["semantic", "keyword", "hybrid"];
+// Standard RRF damping constant: keeps the top few ranks from dominating
+const RRF_K = 60;
+// How deep into each ranked list fusion looks
+const RRF_WINDOW = 50;
+// Most tag buckets returned; the rest are the long tail
+const MAX_TAG_FACETS = 20;
+// Host of a link without scheme, port or leading "www.", e.g. "github.com"
+const LINK_DOMAIN_SQL = `substring(lower(url) from '^[a-z][a-z0-9+.-]*://(?:www\\.)?([^/:?#]+)')`;
+
+export const isSearchMode = (value: unknown): value is SearchMode =>
+  typeof value === "string" && SEARCH_MODES.includes(value as SearchMode);
+
+export const sanitizeSearchQuery = (query: string): string => {
+  // Remove potential SQL injection patterns and normalize
+  return query
+    .trim()
+    .replace(/[%;\\]/g, '') // Remove common SQL injection chars
+    .substring(0, 1000); // Limit length
+};
+
+// WHERE conditions shared by ranking and facet counting: the user's live,
+// fully ingested content narrowed by every filter in the options. Parameters
+// start at $1.
+const buildFilterConditions = (options: SemanticSearchOptions | FacetCountOptions) => {
+  const {
+    userId,
+    contentTypes,
+    tagFilter,
+    requiredTags,
+    excludedTags,
+    phrases,
+    excludedTerms,
+    domains,
+    excludedDomains,
+    collectionIds,
+    dateRange
+  } = options;
+
+  const whereConditions = [`"userId" = $1`, `"deletedAt" IS NULL`, `status = 'READY'`];
+  let paramIndex = 2;
+  const queryParams: any[] = [userId];
+
+  // Add content type filter if provided
+  if (contentTypes && Array.isArray(contentTypes)) {
+    const validContentTypes = ['NOTE', 'DOCUMENT', 'LINK'];
+    const validTypes = contentTypes.filter(type => 
+      validContentTypes.includes(type.toUpperCase())
+    );
+    if (validTypes.length > 0) {
+      const typeParams = validTypes.map(() => `$${paramIndex++}`).join(',');
+      whereConditions.push(`type IN (${typeParams})`);
+      queryParams.push(...validTypes);
+    }
+  }
+
+  // Add tag filter if provided (&& = any-of, @> = all-of)
+  if (tagFilter) {
+    const operator = tagFilter.mode === "all" ? "@>" : "&&";
+    whereConditions.push(`tags ${operator} $${paramIndex++}::text[]`);
+    queryParams.push(tagFilter.tags);
+  }
+
+  // Tags from the query language must all match, on top of the tag filter
+  if (requiredTags && requiredTags.length > 0) {
+    whereConditions.push(`tags @> $${paramIndex++}::text[]`);
+    queryParams.push(requiredTags);
+  }
+
+  if (excludedTags && excludedTags.length > 0) {
+    whereConditions.push(`NOT (tags && $${paramIndex++}::text[])`);
+    queryParams.push(excludedTags);
+  }
+
+  // Quoted phrases must appear exactly (case-insensitive) in the title or content
+  for (const phrase of phrases ?? []) {
+    whereConditions.push(
+      `strpos(lower(coalesce(title, '') || ' ' || coalesce(content, '')), lower($${paramIndex++})) > 0`
+    );
+    queryParams.push(phrase);
+  }
+
+  // Excluded terms go through full-text search so "-rust" doesn't also drop "trust"
+  for (const term of excludedTerms ?? []) {
+    whereConditions.push(`NOT ("searchVector" @@ phraseto_tsquery('english', $${paramIndex++}))`);
+    queryParams.push(term);
+  }
+
+  // Links from any of the domains, and nothing from the excluded ones
+  if (domains && domains.length > 0) {
+    whereConditions.push(`${LINK_DOMAIN_SQL} = ANY($${paramIndex++}::text[])`);
+    queryParams.push(domains);
+  }
+
+  if (excludedDomains && excludedDomains.length > 0) {
+    whereConditions.push(`NOT (coalesce(${LINK_DOMAIN_SQL}, '') = ANY($${paramIndex++}::text[]))`);
+    queryParams.push(excludedDomains);
+  }
+
+  // Add collection scope if provided
+  if (collectionIds) {
+    whereConditions.push(
+      `id IN (SELECT "contentId" FROM "CollectionItem" WHERE "collectionId" = ANY($${paramIndex++}::text[]))`
+    );
+    queryParams.push(collectionIds);
+  }
+
+  // Add date range filter if provided
+  if (dateRange?.start || dateRange?.end) {
+    if (dateRange.start && dateRange.end) {
+      whereConditions.push(`"createdAt" BETWEEN $${paramIndex} AND $${paramIndex + 1}`);
+      queryParams.push(dateRange.start.toISOString(), dateRange.end.toISOString());
+      paramIndex += 2;
+    } else if (dateRange.start) {
+      whereConditions.push(`"createdAt" >= $${paramIndex}`);
+      queryParams.push(dateRange.start.toISOString());
+      paramIndex++;
+    } else if (dateRange.end) {
+      whereConditions.push(`"createdAt" <= $${paramIndex}`);
+      queryParams.push(dateRange.end.toISOString());
+      paramIndex++;
+    }
+  }
+
+
+  return { whereConditions, queryParams, paramIndex };
+};
+
+// Ranks the user's content against a query. Semantic ranking uses vector
+// similarity (item or best chunk), keyword ranking uses ts_rank_cd over the
+// generated searchVector column, and hybrid mode fuses the two lists with
+// reciprocal rank fusion. Dates in the query should already have been turned
+// into dateRange (see parseSearchQuery). A query made only of filters lists
+// the matching items, newest first.
+export const runSemanticSearch = async (options: SemanticSearchOptions): Promise<SearchResult[]> => {
+  const {
+    userId,
+    query,
+    embedding: queryEmbedding,
+    mode = "hybrid",
+    keywordQuery = query,
+    threshold,
+    limit
+  } = options;
+
+  const hasText = query.trim().length > 0;
+  const useSemantic = hasText && mode !== "keyword";
+  const useKeyword = hasText && mode !== "semantic";
+
+  if (useSemantic && (!queryEmbedding || queryEmbedding.length === 0)) {
+    throw new Error(`A query embedding is required for ${mode} search`);
+  }
+
+  const { whereConditions, queryParams, paramIndex: firstParam } = buildFilterConditions(options);
+  let paramIndex = firstParam;
+  const whereClause = whereConditions.join(' AND ');
+
+  const limitParam = `$${paramIndex++}`;
+  const windowParam = `$${paramIndex++}`;
+  queryParams.push(limit, Math.max(limit, RRF_WINDOW));
+
+  // Each ranked list is a CTE of (id, rank, score) over the filtered content
+  const rankedLists: string[] = [];
+
+  if (useSemantic) {
+    const embeddingParam = `$${paramIndex++}`;
+    const thresholdParam = `$${paramIndex++}`;
+    const providerParam = `$${paramIndex++}`;
+    const modelParam = `$${paramIndex++}`;
+
+    // The query vector is only comparable with vectors from the same model
+    const { provider, model } = getEmbeddingSource();
+    queryParams.push(queryEmbedding, threshold, provider, model);
+
+    // Long documents are also matched through their chunks; an item scores by
+    // whichever is closer, its own vector or its best chunk. Vectors from another
+    // model don't count until the item is re-embedded.
+    rankedLists.push(`
+    semantic AS (
+      SELECT id, matched_chunks, score, (ROW_NUMBER() OVER (ORDER BY score DESC))::int AS rank
+      FROM (
+        SELECT
+          "Content".id,
+          best_chunks.chunks AS matched_chunks,
+          COALESCE(GREATEST(
+            CASE WHEN "embeddingProvider" = ${providerParam} AND "embeddingModel" = ${modelParam}
+              THEN 1 - (embedding <=> ${embeddingParam}::vector) END,
+            best_chunks.similarity
+          ), 0) AS score
+        FROM "Content"
+        LEFT JOIN LATERAL (
+          SELECT
+            MAX(chunk_similarity) AS similarity,
+            json_agg(json_build_object(
+              'chunkIndex', "chunkIndex",
+              'text', "text",
+              'startOffset', "startOffset",
+              'endOffset', "endOffset",
+              'pageNumber', "pageNumber",
+              'similarity', chunk_similarity
+            ) ORDER BY chunk_similarity DESC) AS chunks
+          FROM (
+            SELECT
+              chunk.*,
+              1 - (chunk.embedding <=> ${embeddingParam}::vector) AS chunk_similarity
+            FROM "ContentChunk" chunk
+            WHERE chunk."contentId" = "Content".id
+            AND chunk."embeddingProvider" = ${providerParam}
+            AND chunk."embeddingModel" = ${modelParam}
+            ORDER BY chunk.embedding <=> ${embeddingParam}::vector
+            LIMIT ${MATCHED_CHUNKS_PER_RESULT}
+          ) top_chunks
+        ) best_chunks ON true
+        WHERE ${whereClause}
+      ) scored
+      WHERE score >= ${thresholdParam}
+      ORDER BY score DESC
+      LIMIT ${windowParam}
+    )`);
+  }
+
+  if (useKeyword) {
+    // websearch_to_tsquery accepts free text, "quoted phrases" and -exclusions
+    const queryParam = `$${paramIndex++}`;
+    queryParams.push(keywordQuery);
+
+    rankedLists.push(`
+    keyword AS (
+      SELECT id, score, (ROW_NUMBER() OVER (ORDER BY score DESC))::int AS rank
+      FROM (
+        SELECT id, ts_rank_cd("searchVector", ts_query)::float8 AS score
+        FROM "Content", websearch_to_tsquery('english', ${queryParam}) ts_query
+        WHERE ${whereClause}
+        AND "searchVector" @@ ts_query
+      ) scored
+      ORDER BY score DESC
+      LIMIT ${windowParam}
+    )`);
+  }
+
+  if (rankedLists.length === 0) {
+    rankedLists.push(`
+    recent AS (
+      SELECT id, 0::float8 AS score, (ROW_NUMBER() OVER (ORDER BY "createdAt" DESC))::int AS rank
+      FROM "Content"
+      WHERE ${whereClause}
+      ORDER BY "createdAt" DESC
+      LIMIT ${windowParam}
+    )`);
+  }
+
+  const listNames = rankedLists.map(list => list.trim().split(' ')[0]);
+
+  // A single list keeps its own score; fused lists score 1/(k + rank) per list
+  const totalScore = mode === "hybrid"
+    ? listNames.map(name => `COALESCE(1::float8 / (${RRF_K} + ${name}.rank), 0)`).join(' + ')
+    : `${listNames[0]}.score`;
+
+  const sqlQuery = `
+    WITH ${rankedLists.join(',')}
+    SELECT 
+      "Content".id,
+      title, 
+      content, 
+      type,
+      tags,
+      url,
+      metadata,
+      "createdAt",
+      ${useSemantic ? 'semantic.matched_chunks' : 'NULL::json'} AS matched_chunks,
+      ${useSemantic ? 'semantic.score' : 'NULL::float8'} AS semantic_score,
+      ${useKeyword ? 'keyword.score' : 'NULL::float8'} AS keyword_score,
+      ${useSemantic ? 'semantic.rank' : 'NULL::int'} AS semantic_rank,
+      ${useKeyword ? 'keyword.rank' : 'NULL::int'} AS keyword_rank,
+      ${totalScore} AS total_score
+    FROM "Content"
+    ${listNames.map(name => `LEFT JOIN ${name} ON ${name}.id = "Content".id`).join('\n    ')}
+    WHERE "Content".id IN (${listNames.map(name => `SELECT id FROM ${name}`).join(' UNION ')})
+    ORDER BY total_score DESC, "createdAt" DESC
+    LIMIT ${limitParam};
+  `;
+
+  return prisma.$queryRawUnsafe<SearchResult[]>(sqlQuery, ...queryParams);
+};
+
+// Facets for a search that can't match anything, e.g. type:note -type:note
+export const emptySearchFacets = (): SearchFacets => ({ total: 0, type: [], tag: [], month: [], domain: [] });
+
+// Values with spaces are quoted so the token parses back as one value
+const facetToken = (key: string, value: string) =>
+  /[\s"]/.test(value) ? `${key}:"${value.replace(/"/g, "")}"` : `${key}:${value}`;
+
+// after: is inclusive and before: exclusive, so a month is [month, next month)
+const monthToken = (month: string) => {
+  const [year, monthNumber] = month.split("-").map(part => parseInt(part));
+  const next = monthNumber === 12
+    ? `${year + 1}-01`
+    : `${year}-${String(monthNumber + 1).padStart(2, "0")}`;
+  return `after:${month} before:${next}`;
+};
+
+// Counts the full set of items a search matches by type, tag, creation month
+// and link domain, ignoring the result limit. Uses the same filters as
+// runSemanticSearch, so picking a bucket's token narrows both alike.
+export const countSearchFacets = async (options: FacetCountOptions): Promise<SearchFacets> => {
+  const {
+    query,
+    embedding: queryEmbedding,
+    mode = "hybrid",
+    keywordQuery = query,
+    threshold,
+    matchTitle = false,
+    excludedTitleTerms = [],
+    timezone = "UTC"
+  } = options;
+
+  const hasText = query.trim().length > 0;
+  const useSemantic = hasText && !matchTitle && mode !== "keyword";
+  const useKeyword = hasText && !matchTitle && mode !== "semantic";
+
+  if (useSemantic && (!queryEmbedding || queryEmbedding.length === 0)) {
+    throw new Error(`A query embedding is required for ${mode} search`);
+  }
+
+  const { whereConditions, queryParams, paramIndex: firstParam } = buildFilterConditions(options);
+  let paramIndex = firstParam;
+
+  // An item matches if any of the search's ranked lists would include it
+  const matchConditions: string[] = [];
+
+  if (useSemantic) {
+    const embeddingParam = `$${paramIndex++}`;
+    const thresholdParam = `$${paramIndex++}`;
+    const providerParam = `$${paramIndex++}`;
+    const modelParam = `$${paramIndex++}`;
+
+    const { provider, model } = getEmbeddingSource();
+    queryParams.push(queryEmbedding, threshold, provider, model);
+
+    matchConditions.push(`(
+      "embeddingProvider" = ${providerParam} AND "embeddingModel" = ${modelParam}
+      AND 1 - (embedding <=> ${embeddingParam}::vector) >= ${thresholdParam}
+    )`, `EXISTS (
+      SELECT 1 FROM "ContentChunk" chunk
+      WHERE chunk."contentId" = "Content".id
+      AND chunk."embeddingProvider" = ${providerParam}
+      AND chunk."embeddingModel" = ${modelParam}
+      AND 1 - (chunk.embedding <=> ${embeddingParam}::vector) >= ${thresholdParam}
+    )`);
+  }
+
+  if (useKeyword) {
+    matchConditions.push(`"searchVector" @@ websearch_to_tsquery('english', $${paramIndex++})`);
+    queryParams.push(keywordQuery);
+  }
+
+  if (matchTitle) {
+    if (hasText) {
+      whereConditions.push(`strpos(lower(coalesce(title, '')), lower($${paramIndex++})) > 0`);
+      queryParams.push(query);
+    }
+    for (const term of excludedTitleTerms) {
+      whereConditions.push(`strpos(lower(coalesce(title, '')), lower($${paramIndex++})) = 0`);
+      queryParams.push(term);
+    }
+  }
+
+  if (matchConditions.length > 0) {
+    whereConditions.push(`(${matchConditions.join(' OR ')})`);
+  }
+
+  const timezoneParam = `$${paramIndex++}`;
+  queryParams.push(timezone);
+
+  // createdAt is stored as UTC without a zone
+  const sqlQuery = `
+    WITH matches AS (
+      SELECT type, tags, url, "createdAt"
+      FROM "Content"
+      WHERE ${whereConditions.join(' AND ')}
+    )
+    SELECT 'total' AS facet, NULL AS value, COUNT(*)::int AS count FROM matches
+    UNION ALL
+    SELECT 'type', type::text, COUNT(*)::int FROM matches GROUP BY type
+    UNION ALL
+    SELECT 'tag', tag, COUNT(*)::int FROM matches, unnest(tags) AS tag GROUP BY tag
+    UNION ALL
+    SELECT 'month', month, COUNT(*)::int
+    FROM (
+      SELECT to_char("createdAt" AT TIME ZONE 'UTC' AT TIME ZONE ${timezoneParam}, 'YYYY-MM') AS month
+      FROM matches
+    ) months
+    GROUP BY month
+    UNION ALL
+    SELECT 'domain', domain, COUNT(*)::int
+    FROM (SELECT ${LINK_DOMAIN_SQL} AS domain FROM matches WHERE type = 'LINK') domains
+    WHERE domain IS NOT NULL
+    GROUP BY domain;
+  `;
+
+  const rows = await prisma.$queryRawUnsafe<{ facet: string; value: string | null; count: number }[]>(
+    sqlQuery,
+    ...queryParams
+  );
+
+  const facets = emptySearchFacets();
+  for (const { facet, value, count } of rows) {
+    if (facet === "total") {
+      facets.total = count;
+    } else if (facet === "type") {
+      facets.type.push({ value: value!, count, token: `type:${value!.toLowerCase()}` });
+    } else if (facet === "tag") {
+      facets.tag.push({ value: value!, count, token: facetToken("tag", value!) });
+    } else if (facet === "month") {
+      facets.month.push({ value: value!, count, token: monthToken(value!) });
+    } else if (facet === "domain") {
+      facets.domain.push({ value: value!, count, token: facetToken("domain", value!) });
+    }
+  }
+
+  // Biggest buckets first, except months which read best in date order
+  const byCount = (a: FacetBucket, b: FacetBucket) => b.count - a.count || a.value.localeCompare(b.value);
+  facets.type.sort(byCount);
+  facets.tag = facets.tag.sort(byCount).slice(0, MAX_TAG_FACETS);
+  facets.domain.sort(byCount);
+  facets.month.sort((a, b) => b.value.localeCompare(a.value));
+
+  return facets;
+};
+
+// IDs of the user's links on any of the domains, for queries built with
+// Prisma, which can't match on the URL's host
+export const findContentIdsByDomain = async (userId: string, domains: string[]): Promise<string[]> => {
+  const rows = await prisma.$queryRawUnsafe<{ id: string }[]>(
+    `SELECT id FROM "Content" WHERE "userId" = $1 AND ${LINK_DOMAIN_SQL} = ANY($2::text[]);`,
+    userId,
+    domains
+  );
+  return rows.map(row => row.id);
+};
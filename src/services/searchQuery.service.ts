@@ -0,0 +1,387 @@
+import * as chrono from "chrono-node";
+
+// Type definitions
+export type SearchQueryFilterKind = "type" | "tag" | "before" | "after" | "date" | "domain" | "phrase" | "exclude";
+
+// One parsed operator, for the client to show as a removable chip. `raw` is
+// the text as it appeared in the query.
+export interface SearchQueryFilter {
+  kind: SearchQueryFilterKind;
+  value: string;
+  negated: boolean;
+  raw: string;
+}
+
+export interface ParsedSearchQuery {
+  text: string; // Free text and phrases, without operators; this is what gets embedded
+  keywordQuery: string; // Free text, "phrases" and -exclusions in websearch_to_tsquery syntax
+  contentTypes: string[] | null;
+  tags: string[];
+  excludedTags: string[];
+  domains: string[]; // Link hosts, any of which may match
+  excludedDomains: string[];
+  phrases: string[];
+  excludedTerms: string[];
+  dateRange: DateRange | null;
+  filters: SearchQueryFilter[];
+  errors: string[];
+}
+
+export interface SearchQueryOptions {
+  referenceDate?: Date;
+  timezone?: string; // IANA name; dates like "yesterday" or 2025-01 are read in this zone
+  naturalDates?: boolean; // Turn phrases like "last week" in the free text into a date range
+}
+
+interface DateRange {
+  start?: Date;
+  end?: Date;
+}
+
+type DateGranularity = "day" | "month" | "year";
+
+// One piece of the query as it goes into the embedded text and the keyword
+// query. Plain words are `free`; quoted phrases and exclusions are not.
+interface QueryPart {
+  text: string | null;
+  keyword: string;
+  free: boolean;
+}
+
+// Constants
+const CONTENT_TYPES = ["NOTE", "DOCUMENT", "LINK"];
+const TYPE_ALIASES: Record<string, string> = {
+  note: "NOTE",
+  notes: "NOTE",
+  doc: "DOCUMENT",
+  docs: "DOCUMENT",
+  document: "DOCUMENT",
+  documents: "DOCUMENT",
+  file: "DOCUMENT",
+  files: "DOCUMENT",
+  link: "LINK",
+  links: "LINK",
+  url: "LINK",
+  bookmark: "LINK",
+  bookmarks: "LINK"
+};
+const OPERATORS = ["type", "tag", "domain", "site", "before", "after"];
+// Optional leading "-", optional `key:`, then a quoted or bare value
+const TOKEN_PATTERN = /(-?)(?:([a-zA-Z]+):)?(?:"([^"]*)"|(\S+))/g;
+
+const MINUTE_MS = 60 * 1000;
+// Words tying a date phrase to the rest of the query; removed along with it
+const DATE_CONNECTOR_PATTERN = /\b(since|after|before|until|till|from|in|on|during|of)\s+$/i;
+
+// "https://www.GitHub.com/foo" -> "github.com", matching how link domains are stored for search
+const normalizeDomain = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//, "")
+    .replace(/^www\./, "")
+    .split(/[/:?#]/)[0];
+
+export const isValidTimezone = (timeZone: unknown): timeZone is string => {
+  if (typeof timeZone !== "string" || timeZone.length === 0) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Minutes east of UTC for an IANA time zone at the given instant
+export const timezoneOffsetMinutes = (timeZone: string, at: Date): number => {
+  const name = new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: "longOffset" })
+    .formatToParts(at)
+    .find(part => part.type === "timeZoneName")?.value ?? "GMT";
+
+  const match = name.match(/GMT([+-])(\d{2}):(\d{2})/);
+  if (!match) return 0;
+
+  const minutes = parseInt(match[2]) * 60 + parseInt(match[3]);
+  return match[1] === "-" ? -minutes : minutes;
+};
+
+// UTC instant of a wall-clock time (given as a UTC timestamp) in the zone,
+// using the zone's offset on that date so DST changes are respected
+const fromLocalTime = (localMs: number, timezone: string): Date =>
+  new Date(localMs - timezoneOffsetMinutes(timezone, new Date(localMs)) * MINUTE_MS);
+
+// First and last instant of the local day, month or year containing `date`
+const periodBounds = (date: Date, granularity: DateGranularity, timezone: string): { start: Date; end: Date } => {
+  const local = new Date(date.getTime() + timezoneOffsetMinutes(timezone, date) * MINUTE_MS);
+  const year = local.getUTCFullYear();
+  const month = granularity === "year" ? 0 : local.getUTCMonth();
+  const day = granularity === "day" ? local.getUTCDate() : 1;
+
+  const start = Date.UTC(year, month, day);
+  const next = granularity === "day"
+    ? Date.UTC(year, month, day + 1)
+    : granularity === "month"
+      ? Date.UTC(year, month + 1, 1)
+      : Date.UTC(year + 1, 0, 1);
+
+  return {
+    start: fromLocalTime(start, timezone),
+    end: new Date(fromLocalTime(next, timezone).getTime() - 1)
+  };
+};
+
+// How precisely chrono pinned the date down
+const granularityOf = (components: chrono.ParsedComponents): DateGranularity => {
+  if (components.isCertain("day") || components.isCertain("weekday")) return "day";
+  if (components.isCertain("month")) return "month";
+  if (components.isCertain("year")) return "year";
+  return "day";
+};
+
+// chrono picks the nearest year when a month is given without one, so
+// "march" in October means next March. Saved content is in the past, so use
+// the previous one. Times of day ("at 3pm") keep chrono's date.
+const pastDate = (components: chrono.ParsedComponents, referenceDate: Date): Date => {
+  const date = components.date();
+  if (components.isCertain("month") && !components.isCertain("year") && date > referenceDate) {
+    date.setUTCFullYear(date.getUTCFullYear() - 1);
+  }
+  return date;
+};
+
+// Start of the period a date value names. Plain years, months and days are
+// read in the given zone; anything else ("last month", "jan 5") goes through chrono.
+const parseDateValue = (value: string, referenceDate: Date, timezone: string): Date | null => {
+  const partial = value.match(/^(\d{4})(?:-(\d{1,2}))?(?:-(\d{1,2}))?$/);
+  if (partial) {
+    const [, year, month = "1", day = "1"] = partial;
+    const date = new Date(Date.UTC(parseInt(year), parseInt(month) - 1, parseInt(day)));
+    if (isNaN(date.getTime()) || date.getUTCMonth() !== parseInt(month) - 1) return null;
+    return fromLocalTime(date.getTime(), timezone);
+  }
+
+  const [result] = chrono.parse(value, { instant: referenceDate, timezone: timezoneOffsetMinutes(timezone, referenceDate) });
+  return result
+    ? periodBounds(pastDate(result.start, referenceDate), granularityOf(result.start), timezone).start
+    : null;
+};
+
+// Finds the first date phrase in free text ("last week", "in March 2025",
+// "since jan 5", "jan 5 to jan 10") and turns it into a createdAt range in the
+// user's zone. Returns the text with the phrase removed, so it isn't embedded.
+// Relative phrases like "last week" or "past 3 days" count back from now.
+export const extractDateRange = (
+  text: string,
+  referenceDate: Date,
+  timezone: string
+): { text: string; phrase: string | null; dateRange: DateRange | null } => {
+  const [result] = chrono.parse(text, { instant: referenceDate, timezone: timezoneOffsetMinutes(timezone, referenceDate) });
+  if (!result) return { text, phrase: null, dateRange: null };
+
+  const granularity = granularityOf(result.start);
+  const first = periodBounds(pastDate(result.start, referenceDate), granularity, timezone);
+  const last = result.end
+    ? periodBounds(pastDate(result.end, referenceDate), granularityOf(result.end), timezone)
+    : first;
+
+  const before = text.slice(0, result.index);
+  const connector = before.match(DATE_CONNECTOR_PATTERN);
+
+  let dateRange: DateRange;
+  switch (connector?.[1].toLowerCase()) {
+    case "since":
+      dateRange = { start: first.start };
+      break;
+    case "after":
+      dateRange = { start: new Date(last.end.getTime() + 1) };
+      break;
+    case "before":
+      dateRange = { end: new Date(first.start.getTime() - 1) };
+      break;
+    case "until":
+    case "till":
+      dateRange = { end: last.end };
+      break;
+    default:
+      dateRange = result.tags().has("result/relativeDate") && !result.end && granularity === "day"
+        ? { start: first.start }
+        : { start: first.start, end: last.end };
+  }
+
+  const phraseStart = connector ? result.index - connector[0].length : result.index;
+  const phraseEnd = result.index + result.text.length;
+
+  return {
+    text: (text.slice(0, phraseStart) + " " + text.slice(phraseEnd)).replace(/\s+/g, " ").trim(),
+    phrase: text.slice(phraseStart, phraseEnd).trim(),
+    dateRange
+  };
+};
+
+// Narrows a range to the part that also falls inside another
+const intersectDateRanges = (range: DateRange | null, other: DateRange): DateRange => {
+  const start = [range?.start, other.start].filter((date): date is Date => !!date);
+  const end = [range?.end, other.end].filter((date): date is Date => !!date);
+
+  return {
+    start: start.length > 0 ? new Date(Math.max(...start.map(date => date.getTime()))) : undefined,
+    end: end.length > 0 ? new Date(Math.min(...end.map(date => date.getTime()))) : undefined
+  };
+};
+
+// Splits a search box query into free text and filters:
+//   type:doc  tag:ml  domain:github.com  before:2025-01  after:"last month"  "exact phrase"  -excluded
+// type, tag and domain (alias site) can be negated (-type:link, -tag:draft).
+// Repeated tags must all match; repeated types and domains widen the set. `before` is exclusive and `after`
+// inclusive of the date they name. Unknown keys such as `http:` stay in the text.
+// A date phrase left in the free text becomes a range filter too.
+export const parseSearchQuery = (input: string, options: SearchQueryOptions = {}): ParsedSearchQuery => {
+  const {
+    referenceDate = new Date(),
+    timezone = "UTC",
+    naturalDates = true
+  } = options;
+
+  const parsed: ParsedSearchQuery = {
+    text: "",
+    keywordQuery: "",
+    contentTypes: null,
+    tags: [],
+    excludedTags: [],
+    domains: [],
+    excludedDomains: [],
+    phrases: [],
+    excludedTerms: [],
+    dateRange: null,
+    filters: [],
+    errors: []
+  };
+
+  const parts: QueryPart[] = [];
+  const includedTypes = new Set<string>();
+  const excludedTypes = new Set<string>();
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [raw, dash, rawKey, quoted, bare] = match;
+    const negated = dash === "-";
+    const key = rawKey?.toLowerCase();
+    const value = (quoted ?? bare.replace(/"/g, "")).trim();
+
+    if (key && OPERATORS.includes(key)) {
+      if (!value) {
+        parsed.errors.push(`Missing value for ${key}:`);
+        continue;
+      }
+
+      if (key === "type") {
+        const type = TYPE_ALIASES[value.toLowerCase()] ?? (CONTENT_TYPES.includes(value.toUpperCase()) ? value.toUpperCase() : null);
+        if (!type) {
+          parsed.errors.push(`Unknown content type "${value}". Use note, doc or link`);
+          continue;
+        }
+        (negated ? excludedTypes : includedTypes).add(type);
+        parsed.filters.push({ kind: "type", value: type, negated, raw });
+        continue;
+      }
+
+      if (key === "tag") {
+        (negated ? parsed.excludedTags : parsed.tags).push(value);
+        parsed.filters.push({ kind: "tag", value, negated, raw });
+        continue;
+      }
+
+      if (key === "domain" || key === "site") {
+        const domain = normalizeDomain(value);
+        if (!domain) {
+          parsed.errors.push(`Couldn't read a domain from "${value}"`);
+          continue;
+        }
+        (negated ? parsed.excludedDomains : parsed.domains).push(domain);
+        parsed.filters.push({ kind: "domain", value: domain, negated, raw });
+        continue;
+      }
+
+      // before: / after:
+      if (negated) {
+        parsed.errors.push(`${key}: can't be negated`);
+        continue;
+      }
+
+      const date = parseDateValue(value, referenceDate, timezone);
+      if (!date) {
+        parsed.errors.push(`Couldn't understand the date "${value}"`);
+        continue;
+      }
+
+      parsed.dateRange = parsed.dateRange ?? {};
+      if (key === "before") {
+        const end = new Date(date.getTime() - 1);
+        if (!parsed.dateRange.end || end < parsed.dateRange.end) parsed.dateRange.end = end;
+      } else if (!parsed.dateRange.start || date > parsed.dateRange.start) {
+        parsed.dateRange.start = date;
+      }
+      parsed.filters.push({ kind: key as "before" | "after", value: date.toISOString(), negated, raw });
+      continue;
+    }
+
+    // Anything else is text; keep unknown `key:value` pairs whole
+    const term = key ? `${rawKey}:${value}` : value;
+    if (!term) continue;
+
+    if (negated) {
+      parsed.excludedTerms.push(term);
+      parsed.filters.push({ kind: "exclude", value: term, negated, raw });
+      parts.push({ text: null, keyword: quoted !== undefined ? `-"${term}"` : `-${term}`, free: false });
+    } else if (quoted !== undefined && !key) {
+      parsed.phrases.push(term);
+      parsed.filters.push({ kind: "phrase", value: term, negated, raw });
+      parts.push({ text: term, keyword: `"${term}"`, free: false });
+    } else {
+      parts.push({ text: term, keyword: term, free: true });
+    }
+  }
+
+  if (includedTypes.size > 0 || excludedTypes.size > 0) {
+    const allowed = includedTypes.size > 0 ? [...includedTypes] : CONTENT_TYPES;
+    parsed.contentTypes = allowed.filter(type => !excludedTypes.has(type));
+  }
+
+  if (parsed.dateRange?.start && parsed.dateRange.end && parsed.dateRange.start > parsed.dateRange.end) {
+    parsed.errors.push("The after: date is later than the before: date");
+  }
+
+  // Date phrases are only looked for in runs of plain words, never inside
+  // quotes, so "march madness" stays a phrase. The first run with one wins.
+  if (naturalDates) {
+    let runStart = 0;
+    for (let i = 0; i <= parts.length; i++) {
+      if (i < parts.length && parts[i].free) continue;
+
+      if (i > runStart) {
+        const words = parts.slice(runStart, i).map(part => part.keyword).join(" ");
+        const extracted = extractDateRange(words, referenceDate, timezone);
+
+        if (extracted.phrase && extracted.dateRange) {
+          const { start, end } = extracted.dateRange;
+          const remaining = extracted.text
+            ? [{ text: extracted.text, keyword: extracted.text, free: true }]
+            : [];
+          parts.splice(runStart, i - runStart, ...remaining);
+          parsed.dateRange = intersectDateRanges(parsed.dateRange, extracted.dateRange);
+          parsed.filters.push({
+            kind: "date",
+            value: `${start?.toISOString() ?? ""}/${end?.toISOString() ?? ""}`,
+            negated: false,
+            raw: extracted.phrase
+          });
+          break;
+        }
+      }
+      runStart = i + 1;
+    }
+  }
+
+  parsed.text = parts.flatMap(part => part.text ? [part.text] : []).join(" ");
+  parsed.keywordQuery = parts.map(part => part.keyword).join(" ");
+
+  return parsed;
+};
@@ -0,0 +1,183 @@
+// Type definitions
+export interface Highlight {
+  start: number;
+  end: number;
+}
+
+// Where a snippet came from: a keyword hit, a best-matching chunk from vector
+// search, or the start of the body when there is neither
+export type SnippetMatchType = "keyword" | "semantic" | "lead";
+
+export interface Snippet {
+  text: string;
+  startOffset: number; // Position of the snippet in the item's content
+  endOffset: number;
+  highlights: Highlight[]; // Keyword hits, relative to `text`
+  matchType: SnippetMatchType;
+  chunkIndex?: number;
+  pageNumber?: number | null;
+  similarity?: number;
+}
+
+export interface SnippetOptions {
+  snippetLength?: number;
+  maxSnippets?: number;
+}
+
+interface SnippetSource {
+  title: string | null;
+  content: string | null;
+  matched_chunks?: {
+    chunkIndex: number;
+    text: string;
+    startOffset: number;
+    pageNumber: number | null;
+    similarity: number;
+  }[] | null;
+}
+
+// Constants
+export const DEFAULT_SNIPPET_LENGTH = 200;
+export const MAX_SNIPPET_LENGTH = 1000;
+export const DEFAULT_SNIPPETS_PER_RESULT = 2;
+export const MAX_SNIPPETS_PER_RESULT = 5;
+const MIN_TERM_LENGTH = 2;
+const MAX_TERMS = 20;
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "did", "do", "for", "from", "how", "i",
+  "in", "is", "it", "me", "my", "of", "on", "or", "that", "the", "this", "to", "was",
+  "what", "when", "where", "which", "who", "why", "with", "about"
+]);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Words and phrases worth highlighting. Single words also match longer forms
+// ("rust" highlights "Rust's"), which roughly follows full-text stemming.
+export const extractHighlightTerms = (text: string, phrases: string[] = []): string[] => {
+  const words = (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter(word => word.length >= MIN_TERM_LENGTH && !STOP_WORDS.has(word));
+
+  return [...new Set([...phrases.map(phrase => phrase.toLowerCase()), ...words])].slice(0, MAX_TERMS);
+};
+
+// Every occurrence of the terms in the text, sorted and without overlaps
+export const findHighlights = (text: string, terms: string[]): Highlight[] => {
+  if (!text || terms.length === 0) return [];
+
+  // Longest first so a phrase wins over the words inside it
+  const alternatives = [...terms]
+    .sort((a, b) => b.length - a.length)
+    .map(term => escapeRegExp(term).replace(/\s+/g, "\\s+"));
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join("|")})[\\p{L}\\p{N}']*`, "giu");
+
+  const highlights: Highlight[] = [];
+  for (const match of text.matchAll(pattern)) {
+    const start = match.index!;
+    const previous = highlights[highlights.length - 1];
+    if (previous && start < previous.end) continue;
+    highlights.push({ start, end: start + match[0].length });
+  }
+  return highlights;
+};
+
+// Widens [start, end) to `length` characters and pulls both ends to word breaks
+const snippetWindow = (text: string, start: number, end: number, length: number) => {
+  const padding = Math.max(0, Math.floor((length - (end - start)) / 2));
+  let from = Math.max(0, start - padding);
+  let to = Math.min(text.length, Math.max(end, from + length));
+  from = Math.max(0, Math.min(from, to - length));
+
+  if (from > 0) {
+    const space = text.indexOf(" ", from);
+    if (space !== -1 && space < start) from = space + 1;
+  }
+  if (to < text.length) {
+    const space = text.lastIndexOf(" ", to);
+    if (space > end) to = space;
+  }
+  return { from, to };
+};
+
+const makeSnippet = (
+  text: string,
+  from: number,
+  to: number,
+  highlights: Highlight[],
+  baseOffset: number,
+  matchType: SnippetMatchType
+): Snippet => ({
+  text: text.slice(from, to),
+  startOffset: baseOffset + from,
+  endOffset: baseOffset + to,
+  highlights: highlights
+    .filter(h => h.start >= from && h.end <= to)
+    .map(h => ({ start: h.start - from, end: h.end - from })),
+  matchType
+});
+
+// Snippets showing why a result matched: passages around keyword hits first
+// (the ones covering the most distinct terms), then the best-matching chunks
+// from vector search, and the start of the body if there is nothing else.
+export const buildSnippets = (
+  item: SnippetSource,
+  terms: string[],
+  options: SnippetOptions = {}
+): { titleHighlights: Highlight[]; snippets: Snippet[] } => {
+  const {
+    snippetLength = DEFAULT_SNIPPET_LENGTH,
+    maxSnippets = DEFAULT_SNIPPETS_PER_RESULT
+  } = options;
+
+  const titleHighlights = findHighlights(item.title ?? "", terms);
+  if (maxSnippets <= 0) return { titleHighlights, snippets: [] };
+
+  const content = item.content ?? "";
+  const highlights = findHighlights(content, terms);
+  const snippets: Snippet[] = [];
+
+  // One candidate window per hit, scored by how many different terms it shows
+  const candidates = highlights
+    .map(hit => {
+      const window = snippetWindow(content, hit.start, hit.end, snippetLength);
+      const inside = highlights.filter(h => h.start >= window.from && h.end <= window.to);
+      const distinct = new Set(inside.map(h => content.slice(h.start, h.end).toLowerCase()));
+      return { ...window, score: distinct.size * 10 + inside.length };
+    })
+    .sort((a, b) => b.score - a.score || a.from - b.from);
+
+  for (const candidate of candidates) {
+    if (snippets.length >= maxSnippets) break;
+    const overlaps = snippets.some(s => candidate.from < s.endOffset && candidate.to > s.startOffset);
+    if (!overlaps) {
+      snippets.push(makeSnippet(content, candidate.from, candidate.to, highlights, 0, "keyword"));
+    }
+  }
+  snippets.sort((a, b) => a.startOffset - b.startOffset);
+
+  for (const chunk of item.matched_chunks ?? []) {
+    if (snippets.length >= maxSnippets) break;
+
+    const chunkHighlights = findHighlights(chunk.text, terms);
+    const focus = chunkHighlights[0] ?? { start: 0, end: 0 };
+    const window = chunkHighlights.length > 0
+      ? snippetWindow(chunk.text, focus.start, focus.end, snippetLength)
+      : snippetWindow(chunk.text, 0, 0, snippetLength);
+
+    const startOffset = chunk.startOffset + window.from;
+    if (snippets.some(s => startOffset < s.endOffset && chunk.startOffset + window.to > s.startOffset)) continue;
+
+    snippets.push({
+      ...makeSnippet(chunk.text, window.from, window.to, chunkHighlights, chunk.startOffset, "semantic"),
+      chunkIndex: chunk.chunkIndex,
+      pageNumber: chunk.pageNumber,
+      similarity: chunk.similarity
+    });
+  }
+
+  if (snippets.length === 0 && content.trim().length > 0) {
+    const window = snippetWindow(content, 0, 0, snippetLength);
+    snippets.push(makeSnippet(content, window.from, window.to, highlights, 0, "lead"));
+  }
+
+  return { titleHighlights, snippets };
+};
@@ -32,3 +32,40 @@ export const uploadToTebiStorage = async (file: Express.Multer.File) => {
   await upload.done();
   return `${process.env.TEBI_ENDPOINT}/${process.env.TEBI_BUCKET_NAME}/${fileKey}`;
 };
+
+// Resolves the object key from a URL produced by uploadToTebiStorage.
+// Returns null for URLs that don't point at our bucket.
+export const getTebiObjectKey = (fileUrl: string): string | null => {
+  const prefix = `${process.env.TEBI_ENDPOINT}/${process.env.TEBI_BUCKET_NAME}/`;
+  if (!fileUrl.startsWith(prefix)) {
+    return null;
+  }
+  const key = fileUrl.slice(prefix.length);
+  return key.length > 0 ? key : null;
+};
+
+export const deleteFromTebiStorage = async (fileUrl: string): Promise<boolean> => {
+  const key = getTebiObjectKey(fileUrl);
+  if (!key) {
+    return false;
+  }
+
+  await s3.deleteObject({
+    Bucket: process.env.TEBI_BUCKET_NAME,
+    Key: key,
+  });
+  return true;
+};
+
+// Reads a stored object back, e.g. an upload waiting for background processing
+export const downloadFromTebiStorage = async (key: string): Promise<Buffer> => {
+  const object = await s3.getObject({
+    Bucket: process.env.TEBI_BUCKET_NAME,
+    Key: key,
+  });
+
+  if (!object.Body) {
+    throw new Error(`Stored file ${key} has no content`);
+  }
+  return Buffer.from(await object.Body.transformToByteArray());
+};
@@ -0,0 +1,131 @@
+import prisma from "../prisma.js";
+
+// Type definitions
+export interface ResolvedWikiLink {
+  reference: string;
+  targetId: string;
+  title: string | null;
+  type: string;
+}
+
+export interface WikiLinkSyncResult {
+  resolved: ResolvedWikiLink[];
+  unresolved: string[];
+}
+
+// Constants
+// Matches [[Target]] and [[Target|label]]; the label is display-only
+const WIKI_LINK_PATTERN = /\[\[([^\[\]\|\n]+)(?:\|[^\[\]\n]*)?\]\]/g;
+const MAX_LINKS_PER_ITEM = 200;
+
+// Collects the distinct [[...]] references in a body, in order of appearance
+export const extractWikiReferences = (text: string | null): string[] => {
+  if (!text) return [];
+
+  const seen = new Set<string>();
+  const references: string[] = [];
+
+  for (const match of text.matchAll(WIKI_LINK_PATTERN)) {
+    const reference = match[1].trim();
+    const key = reference.toLowerCase();
+    if (reference.length === 0 || seen.has(key)) continue;
+
+    seen.add(key);
+    references.push(reference);
+    if (references.length >= MAX_LINKS_PER_ITEM) break;
+  }
+
+  return references;
+};
+
+// Resolves each reference to one of the user's items, first by id and then by
+// case-insensitive title. Notes win over other types, newer items over older.
+const resolveReferences = async (
+  userId: string,
+  sourceId: string,
+  references: string[]
+): Promise<Map<string, ResolvedWikiLink>> => {
+  const resolved = new Map<string, ResolvedWikiLink>();
+  if (references.length === 0) return resolved;
+
+  const candidates = await prisma.content.findMany({
+    where: {
+      userId,
+      deletedAt: null,
+      NOT: { id: sourceId },
+      OR: [
+        { id: { in: references } },
+        ...references.map(reference => ({
+          title: { equals: reference, mode: "insensitive" as const }
+        }))
+      ]
+    },
+    orderBy: { createdAt: "desc" },
+    select: { id: true, title: true, type: true }
+  });
+
+  for (const reference of references) {
+    const key = reference.toLowerCase();
+    const target =
+      candidates.find(candidate => candidate.id === reference) ??
+      candidates.find(candidate => candidate.type === "NOTE" && candidate.title?.toLowerCase() === key) ??
+      candidates.find(candidate => candidate.title?.toLowerCase() === key);
+
+    if (target) {
+      resolved.set(reference, {
+        reference,
+        targetId: target.id,
+        title: target.title,
+        type: target.type
+      });
+    }
+  }
+
+  return resolved;
+};
+
+// Re-parses an item's body and replaces its stored outgoing links
+export const syncContentLinks = async (
+  sourceId: string,
+  userId: string,
+  text: string | null
+): Promise<WikiLinkSyncResult> => {
+  const references = extractWikiReferences(text);
+  const resolved = await resolveReferences(userId, sourceId, references);
+
+  await prisma.$transaction([
+    prisma.contentLink.deleteMany({ where: { sourceId } }),
+    prisma.contentLink.createMany({
+      data: references.map(reference => ({
+        sourceId,
+        reference,
+        targetId: resolved.get(reference)?.targetId ?? null
+      }))
+    })
+  ]);
+
+  return {
+    resolved: [...resolved.values()],
+    unresolved: references.filter(reference => !resolved.has(reference))
+  };
+};
+
+// Points previously unresolved links at a newly created or renamed item
+export const resolvePendingLinks = async (
+  userId: string,
+  targetId: string,
+  title: string | null
+): Promise<number> => {
+  if (!title) return 0;
+
+  return prisma.$executeRaw`
+    UPDATE "ContentLink" link
+    SET "targetId" = ${targetId}
+    FROM "Content" source
+    WHERE link."sourceId" = source.id
+    AND source."userId" = ${userId}
+    AND source.id <> ${targetId}
+    AND link."targetId" IS NULL
+    AND lower(link.reference) = lower(${title});
+  `;
+};